@@ -0,0 +1,709 @@
+/**
+ * Tar and zip archives for exporting and importing folders. Archives are
+ * written as a stream, one entry at a time; reading needs the whole archive
+ * in memory because zip keeps its index at the end.
+ */
+
+export const ARCHIVE_FORMATS = ["zip", "tar"] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  tar: "application/x-tar",
+};
+
+/**
+ * Thrown for archives that can't be read or written. Endpoints answer with 400.
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * An entry to write. Paths are relative to the archive root, without a
+ * trailing slash; file content is only opened when the entry is written.
+ */
+export interface ArchiveEntry {
+  path: string;
+  type: "file" | "folder";
+  modified: number;
+  open?: () => Promise<{
+    size: number;
+    body: ReadableStream<Uint8Array> | Uint8Array;
+  }>;
+}
+
+/**
+ * An entry read from an archive, with its path exactly as stored
+ */
+export interface ArchiveItem {
+  path: string;
+  type: "file" | "folder";
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ==================== CRC-32 ====================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array, previous = 0): number {
+  let c = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// ==================== STREAM HELPERS ====================
+
+async function* readStream(
+  body: ReadableStream<Uint8Array> | Uint8Array,
+): AsyncGenerator<Uint8Array> {
+  if (body instanceof Uint8Array) {
+    yield body;
+    return;
+  }
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function toStream(
+  body: ReadableStream<Uint8Array> | Uint8Array,
+): ReadableStream<Uint8Array> {
+  return body instanceof Uint8Array ? new Blob([body]).stream() : body;
+}
+
+function concat(parts: Uint8Array[], length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Decompress gzip or raw deflate data, refusing to grow past maxSize bytes
+ */
+async function inflate(
+  data: Uint8Array,
+  format: "gzip" | "deflate-raw",
+  maxSize: number,
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const stream = toStream(data).pipeThrough(new DecompressionStream(format));
+  try {
+    for await (const chunk of readStream(stream)) {
+      length += chunk.length;
+      if (length > maxSize) {
+        throw new ArchiveError(`Archive expands to more than ${maxSize} bytes`);
+      }
+      parts.push(chunk);
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError) throw error;
+    throw new ArchiveError("Archive data is corrupt");
+  }
+  return concat(parts, length);
+}
+
+/**
+ * Stream an archive of the given entries
+ */
+export function writeArchive(
+  format: ArchiveFormat,
+  entries: Iterable<ArchiveEntry>,
+): ReadableStream<Uint8Array> {
+  const chunks = format === "zip" ? zipChunks(entries) : tarChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Read every entry of a zip, tar or gzipped tar archive. maxSize limits the
+ * total size of the unpacked content.
+ */
+export async function readArchive(
+  data: Uint8Array,
+  maxSize: number,
+): Promise<ArchiveItem[]> {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = await inflate(data, "gzip", maxSize);
+  }
+
+  const signature = data.length >= 4 ? readUint32(data, 0) : 0;
+  if (signature === ZIP_LOCAL_HEADER || signature === ZIP_END_OF_DIRECTORY) {
+    return readZip(data, maxSize);
+  }
+  if (
+    data.length >= BLOCK_SIZE &&
+    decoder.decode(data.subarray(257, 262)) === "ustar"
+  ) {
+    return readTar(data);
+  }
+  throw new ArchiveError("Archive must be a zip, tar or gzipped tar file");
+}
+
+// ==================== TAR ====================
+
+const BLOCK_SIZE = 512;
+
+// Largest size an 11-digit octal field can hold
+const MAX_TAR_FILE_SIZE = 0o77777777777;
+
+function writeOctal(
+  block: Uint8Array,
+  offset: number,
+  length: number,
+  value: number,
+): void {
+  const digits = Math.max(0, Math.floor(value)).toString(8);
+  block.set(encoder.encode(digits.padStart(length - 1, "0")), offset);
+  block[offset + length - 1] = 0;
+}
+
+function tarHeader(
+  name: Uint8Array,
+  prefix: Uint8Array,
+  type: string,
+  size: number,
+  modified: number,
+): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+  block.set(name.subarray(0, 100), 0);
+  writeOctal(block, 100, 8, type === "5" ? 0o755 : 0o644);
+  writeOctal(block, 108, 8, 0);
+  writeOctal(block, 116, 8, 0);
+  writeOctal(block, 124, 12, size);
+  writeOctal(block, 136, 12, modified);
+  block[156] = type.charCodeAt(0);
+  block.set(encoder.encode("ustar\u000000"), 257);
+  block.set(prefix, 345);
+
+  // The checksum is computed with its own field filled with spaces
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  block.set(
+    encoder.encode(checksum.toString(8).padStart(6, "0") + "\u0000 "),
+    148,
+  );
+  return block;
+}
+
+// PAX records are prefixed with their own length, digits included
+function paxRecord(key: string, value: string): Uint8Array {
+  const body = encoder.encode(` ${key}=${value}\n`).length;
+  let length = body;
+  while (length !== body + String(length).length) {
+    length = body + String(length).length;
+  }
+  return encoder.encode(`${length} ${key}=${value}\n`);
+}
+
+function padding(size: number): Uint8Array | null {
+  const remainder = size % BLOCK_SIZE;
+  return remainder ? new Uint8Array(BLOCK_SIZE - remainder) : null;
+}
+
+/**
+ * Headers for one entry. Names that don't fit the ustar name and prefix
+ * fields get a PAX extended header with the full path.
+ */
+function tarHeaders(
+  path: string,
+  type: string,
+  size: number,
+  modified: number,
+): Uint8Array[] {
+  const name = encoder.encode(path);
+  if (name.length <= 100) {
+    return [tarHeader(name, new Uint8Array(0), type, size, modified)];
+  }
+
+  for (let i = name.indexOf(0x2f); i !== -1; i = name.indexOf(0x2f, i + 1)) {
+    if (i <= 155 && name.length - i - 1 <= 100) {
+      return [
+        tarHeader(
+          name.subarray(i + 1),
+          name.subarray(0, i),
+          type,
+          size,
+          modified,
+        ),
+      ];
+    }
+  }
+
+  const record = paxRecord("path", path);
+  const pax = [
+    tarHeader(
+      encoder.encode("PaxHeader"),
+      new Uint8Array(0),
+      "x",
+      record.length,
+      modified,
+    ),
+    record,
+  ];
+  const pad = padding(record.length);
+  if (pad) pax.push(pad);
+  return [...pax, tarHeader(name, new Uint8Array(0), type, size, modified)];
+}
+
+async function* tarChunks(
+  entries: Iterable<ArchiveEntry>,
+): AsyncGenerator<Uint8Array> {
+  for (const entry of entries) {
+    if (entry.type === "folder") {
+      yield* tarHeaders(`${entry.path}/`, "5", 0, entry.modified);
+      continue;
+    }
+
+    const { size, body } = await entry.open!();
+    if (size > MAX_TAR_FILE_SIZE) {
+      throw new ArchiveError(`${entry.path} is too large for a tar archive`);
+    }
+    yield* tarHeaders(entry.path, "0", size, entry.modified);
+
+    let written = 0;
+    for await (const chunk of readStream(body)) {
+      written += chunk.length;
+      yield chunk;
+    }
+    if (written !== size) {
+      throw new ArchiveError(`${entry.path} changed while it was archived`);
+    }
+    const pad = padding(size);
+    if (pad) yield pad;
+  }
+
+  // Two empty blocks end the archive
+  yield new Uint8Array(2 * BLOCK_SIZE);
+}
+
+function readString(
+  data: Uint8Array,
+  offset = 0,
+  length = data.length,
+): string {
+  const field = data.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    throw new ArchiveError("Tar entries over 8 GB are not supported");
+  }
+  const digits = readString(block, offset, length).trim();
+  return digits ? parseInt(digits, 8) : 0;
+}
+
+function paxPath(data: Uint8Array): string | null {
+  let path: string | null = null;
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = decoder.decode(
+      data.subarray(space + 1, offset + length - 1),
+    );
+    const equals = record.indexOf("=");
+    if (record.slice(0, equals) === "path") path = record.slice(equals + 1);
+    offset += length;
+  }
+  return path;
+}
+
+function readTar(data: Uint8Array): ArchiveItem[] {
+  const items: ArchiveItem[] = [];
+  let longPath: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    const stored = readOctal(header, 148, 8);
+    const checksum = header.reduce(
+      (sum, byte, i) => sum + (i >= 148 && i < 156 ? 0x20 : byte),
+      0,
+    );
+    if (stored !== checksum) {
+      throw new ArchiveError(`Corrupt tar header at byte ${offset}`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = header[156] ? String.fromCharCode(header[156]) : "0";
+    const start = offset + BLOCK_SIZE;
+    if (start + size > data.length) {
+      throw new ArchiveError("Tar archive is truncated");
+    }
+    const body = data.subarray(start, start + size);
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // PAX and GNU long names apply to the entry that follows
+    if (type === "x") {
+      longPath = paxPath(body) ?? longPath;
+      continue;
+    }
+    if (type === "L") {
+      longPath = readString(body);
+      continue;
+    }
+
+    const prefix =
+      readString(header, 257, 6) === "ustar"
+        ? readString(header, 345, 155)
+        : "";
+    const name = readString(header, 0, 100);
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = null;
+
+    // Links, devices and global headers have nothing to map to in the pod
+    if (type === "5") {
+      items.push({ path, type: "folder", data: new Uint8Array(0) });
+    } else if (type === "0" || type === "7") {
+      items.push({ path, type: "file", data: body.slice() });
+    }
+  }
+
+  return items;
+}
+
+// ==================== ZIP ====================
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+// General purpose flags: sizes follow the data, names are UTF-8
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008;
+const ZIP_FLAG_UTF8 = 0x0800;
+
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// Offsets and counts above these need Zip64, which isn't supported
+const MAX_ZIP_OFFSET = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] |
+      (data[offset + 1] << 8) |
+      (data[offset + 2] << 16) |
+      (data[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+// Build a little-endian record from [value, byte width] fields
+function zipRecord(fields: [number, 2 | 4][], name?: Uint8Array): Uint8Array {
+  const length = fields.reduce((sum, [, width]) => sum + width, 0);
+  const record = new Uint8Array(length + (name?.length ?? 0));
+  const view = new DataView(record.buffer);
+  let offset = 0;
+  for (const [value, width] of fields) {
+    if (width === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += width;
+  }
+  if (name) record.set(name, offset);
+  return record;
+}
+
+// MS-DOS date and time; zip has no time zone, so this is UTC
+function dosDateTime(seconds: number): { date: number; time: number } {
+  const date = new Date(seconds * 1000);
+  if (date.getUTCFullYear() < 1980) return { date: (1 << 5) | 1, time: 0 };
+  return {
+    date:
+      ((date.getUTCFullYear() - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      (date.getUTCSeconds() >> 1),
+  };
+}
+
+async function* zipChunks(
+  entries: Iterable<ArchiveEntry>,
+): AsyncGenerator<Uint8Array> {
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    if (directory.length === MAX_ZIP_ENTRIES) {
+      throw new ArchiveError("Too many entries for a zip archive, use tar");
+    }
+
+    const folder = entry.type === "folder";
+    const name = encoder.encode(folder ? `${entry.path}/` : entry.path);
+    const flags = folder
+      ? ZIP_FLAG_UTF8
+      : ZIP_FLAG_UTF8 | ZIP_FLAG_DATA_DESCRIPTOR;
+    const method = folder ? ZIP_STORED : ZIP_DEFLATED;
+    const { date, time } = dosDateTime(entry.modified);
+    const headerOffset = offset;
+
+    // Sizes and checksum aren't known yet; a data descriptor follows the data
+    const local = zipRecord(
+      [
+        [ZIP_LOCAL_HEADER, 4],
+        [20, 2],
+        [flags, 2],
+        [method, 2],
+        [time, 2],
+        [date, 2],
+        [0, 4],
+        [0, 4],
+        [0, 4],
+        [name.length, 2],
+        [0, 2],
+      ],
+      name,
+    );
+    yield local;
+    offset += local.length;
+
+    let crc = 0;
+    let size = 0;
+    let compressed = 0;
+    if (!folder) {
+      const { body } = await entry.open!();
+      const deflated = toStream(body)
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              crc = crc32(chunk, crc);
+              size += chunk.length;
+              controller.enqueue(chunk);
+            },
+          }),
+        )
+        .pipeThrough(new CompressionStream("deflate-raw"));
+      for await (const chunk of readStream(deflated)) {
+        compressed += chunk.length;
+        yield chunk;
+      }
+      if (size > MAX_ZIP_OFFSET || compressed > MAX_ZIP_OFFSET) {
+        throw new ArchiveError(
+          `${entry.path} is too large for a zip archive, use tar`,
+        );
+      }
+
+      const descriptor = zipRecord([
+        [ZIP_DATA_DESCRIPTOR, 4],
+        [crc, 4],
+        [compressed, 4],
+        [size, 4],
+      ]);
+      yield descriptor;
+      offset += compressed + descriptor.length;
+    }
+    if (offset > MAX_ZIP_OFFSET) {
+      throw new ArchiveError("Folder is too large for a zip archive, use tar");
+    }
+
+    // Unix permissions go in the high half of the external attributes
+    const mode = folder ? 0o40755 : 0o100644;
+    directory.push(
+      zipRecord(
+        [
+          [ZIP_CENTRAL_HEADER, 4],
+          [(3 << 8) | 20, 2],
+          [20, 2],
+          [flags, 2],
+          [method, 2],
+          [time, 2],
+          [date, 2],
+          [crc, 4],
+          [compressed, 4],
+          [size, 4],
+          [name.length, 2],
+          [0, 2],
+          [0, 2],
+          [0, 2],
+          [0, 2],
+          [mode * 0x10000, 4],
+          [headerOffset, 4],
+        ],
+        name,
+      ),
+    );
+  }
+
+  let directorySize = 0;
+  for (const record of directory) {
+    directorySize += record.length;
+    yield record;
+  }
+  if (offset + directorySize > MAX_ZIP_OFFSET) {
+    throw new ArchiveError("Folder is too large for a zip archive, use tar");
+  }
+
+  yield zipRecord([
+    [ZIP_END_OF_DIRECTORY, 4],
+    [0, 2],
+    [0, 2],
+    [directory.length, 2],
+    [directory.length, 2],
+    [directorySize, 4],
+    [offset, 4],
+    [0, 2],
+  ]);
+}
+
+async function readZip(
+  data: Uint8Array,
+  maxSize: number,
+): Promise<ArchiveItem[]> {
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1;
+  for (
+    let i = data.length - 22;
+    i >= Math.max(0, data.length - 22 - 0xffff);
+    i--
+  ) {
+    if (readUint32(data, i) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new ArchiveError("Zip archive has no central directory");
+  }
+
+  const count = readUint16(data, end + 10);
+  let offset = readUint32(data, end + 16);
+  if (count === MAX_ZIP_ENTRIES || offset === MAX_ZIP_OFFSET) {
+    throw new ArchiveError("Zip64 archives are not supported");
+  }
+
+  const items: ArchiveItem[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > data.length ||
+      readUint32(data, offset) !== ZIP_CENTRAL_HEADER
+    ) {
+      throw new ArchiveError("Corrupt zip central directory");
+    }
+
+    const flags = readUint16(data, offset + 8);
+    const method = readUint16(data, offset + 10);
+    const crc = readUint32(data, offset + 16);
+    const compressedSize = readUint32(data, offset + 20);
+    const size = readUint32(data, offset + 24);
+    const nameLength = readUint16(data, offset + 28);
+    const headerOffset = readUint32(data, offset + 42);
+    const path = decoder.decode(
+      data.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset +=
+      46 +
+      nameLength +
+      readUint16(data, offset + 30) +
+      readUint16(data, offset + 32);
+
+    if (path.endsWith("/")) {
+      items.push({ path, type: "folder", data: new Uint8Array(0) });
+      continue;
+    }
+    if (flags & 0x0001) {
+      throw new ArchiveError(`${path} is encrypted`);
+    }
+    if (
+      compressedSize === MAX_ZIP_OFFSET ||
+      size === MAX_ZIP_OFFSET ||
+      headerOffset === MAX_ZIP_OFFSET
+    ) {
+      throw new ArchiveError("Zip64 archives are not supported");
+    }
+    total += size;
+    if (total > maxSize) {
+      throw new ArchiveError(`Archive expands to more than ${maxSize} bytes`);
+    }
+
+    if (
+      headerOffset + 30 > data.length ||
+      readUint32(data, headerOffset) !== ZIP_LOCAL_HEADER
+    ) {
+      throw new ArchiveError(`Corrupt zip entry for ${path}`);
+    }
+    const start =
+      headerOffset +
+      30 +
+      readUint16(data, headerOffset + 26) +
+      readUint16(data, headerOffset + 28);
+    if (start + compressedSize > data.length) {
+      throw new ArchiveError("Zip archive is truncated");
+    }
+
+    const raw = data.subarray(start, start + compressedSize);
+    let content: Uint8Array;
+    if (method === ZIP_STORED) {
+      content = raw.slice();
+    } else if (method === ZIP_DEFLATED) {
+      content = await inflate(raw, "deflate-raw", size);
+    } else {
+      throw new ArchiveError(
+        `${path} uses unsupported compression method ${method}`,
+      );
+    }
+    if (content.length !== size || crc32(content) !== crc) {
+      throw new ArchiveError(`Checksum mismatch for ${path}`);
+    }
+
+    items.push({ path, type: "file", data: content });
+  }
+
+  return items;
+}
@@ -0,0 +1,141 @@
+/**
+ * Line-based diff (Myers' O(ND) algorithm) rendered as a unified diff.
+ * Used by the revision history endpoints to compare file versions.
+ */
+
+type Edit = { type: "equal" | "insert" | "delete"; line: string };
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      edits.push({ type: "insert", line: b[--y] });
+    } else {
+      edits.push({ type: "delete", line: a[--x] });
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Create a unified diff between two texts.
+ * Returns an empty string when both texts are equal.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldLabel?: string; newLabel?: string; context?: number } = {},
+): string {
+  const { oldLabel = "a", newLabel = "b", context = 3 } = options;
+  const edits = diffLines(oldText.split("\n"), newText.split("\n"));
+
+  if (edits.every((edit) => edit.type === "equal")) {
+    return "";
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let oldLine = 1;
+  let newLine = 1;
+  let i = 0;
+
+  while (i < edits.length) {
+    // Skip to the next change
+    if (edits[i].type === "equal") {
+      i++;
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    // Build a hunk including leading and trailing context
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < edits.length) {
+      if (edits[end].type !== "equal") {
+        lastChange = end;
+      } else if (end - lastChange > context * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(edits.length, lastChange + context + 1);
+
+    const leading = i - start;
+    let hunkOldStart = oldLine - leading;
+    let hunkNewStart = newLine - leading;
+    let oldCount = 0;
+    let newCount = 0;
+    const lines: string[] = [];
+
+    for (let j = start; j < end; j++) {
+      const edit = edits[j];
+      if (edit.type === "equal") {
+        lines.push(` ${edit.line}`);
+        oldCount++;
+        newCount++;
+      } else if (edit.type === "delete") {
+        lines.push(`-${edit.line}`);
+        oldCount++;
+      } else {
+        lines.push(`+${edit.line}`);
+        newCount++;
+      }
+    }
+
+    if (oldCount === 0) hunkOldStart--;
+    if (newCount === 0) hunkNewStart--;
+    output.push(
+      `@@ -${hunkOldStart},${oldCount} +${hunkNewStart},${newCount} @@`,
+      ...lines,
+    );
+
+    for (let j = i; j < end; j++) {
+      if (edits[j].type !== "insert") oldLine++;
+      if (edits[j].type !== "delete") newLine++;
+    }
+    i = end;
+  }
+
+  return output.join("\n");
+}
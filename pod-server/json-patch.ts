@@ -0,0 +1,325 @@
+/**
+ * JSON Pointer (RFC 6901), JSON Patch (RFC 6902) and JSON Merge Patch
+ * (RFC 7386) on parsed JSON values. Used for pointer reads and PATCH
+ * requests on JSON files.
+ */
+
+export type JsonValue =
+  null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+type JsonObject = { [key: string]: JsonValue };
+
+/**
+ * Thrown when a pointer or patch can't be used. The status is 400 for a
+ * malformed pointer or patch, 404 when a pointer read finds nothing and 409
+ * when a patch doesn't fit the document it is applied to.
+ */
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "JsonPatchError";
+  }
+}
+
+const PATCH_OPERATIONS = [
+  "add",
+  "remove",
+  "replace",
+  "move",
+  "copy",
+  "test",
+] as const;
+
+interface PatchOperation {
+  op: (typeof PATCH_OPERATIONS)[number];
+  path: string;
+  from?: string;
+  value?: JsonValue;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Plain assignment would treat a `__proto__` key as the prototype
+function setMember(object: JsonObject, key: string, value: JsonValue): void {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function hasMember(object: JsonObject, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Split a pointer into unescaped reference tokens. "" is the whole document.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new JsonPatchError(
+      `JSON Pointer must be empty or start with \`/\`: ${pointer}`,
+      400,
+    );
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => {
+      if (/~(?![01])/.test(token)) {
+        throw new JsonPatchError(
+          `Invalid escape in JSON Pointer: ${pointer}`,
+          400,
+        );
+      }
+      return token.replace(/~1/g, "/").replace(/~0/g, "~");
+    });
+}
+
+// Array index for a token; "-" (one past the end) only when inserting
+function arrayIndex(
+  array: JsonValue[],
+  token: string,
+  pointer: string,
+  insert: boolean,
+): number {
+  if (insert && token === "-") return array.length;
+  const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+  if (!(index < array.length || (insert && index === array.length))) {
+    throw new JsonPatchError(`Array index out of range at ${pointer}`, 409);
+  }
+  return index;
+}
+
+function find(
+  document: JsonValue,
+  tokens: string[],
+): { found: true; value: JsonValue } | { found: false } {
+  let value = document;
+  for (const token of tokens) {
+    if (Array.isArray(value)) {
+      const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+      if (!(index < value.length)) return { found: false };
+      value = value[index];
+    } else if (isObject(value) && hasMember(value, token)) {
+      value = value[token];
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value };
+}
+
+/**
+ * Value a pointer refers to
+ */
+export function getPointer(document: JsonValue, pointer: string): JsonValue {
+  const result = find(document, parsePointer(pointer));
+  if (!result.found) {
+    throw new JsonPatchError(`Nothing at JSON Pointer ${pointer}`, 404);
+  }
+  return result.value;
+}
+
+/**
+ * Structural equality of two JSON values; object member order doesn't matter
+ */
+export function jsonEqual(a: JsonValue, b: JsonValue): boolean {
+  if (Array.isArray(a)) {
+    return (
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => jsonEqual(item, b[i]))
+    );
+  }
+  if (isObject(a)) {
+    if (!isObject(b)) return false;
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasMember(b, key) && jsonEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+function validateOperation(operation: unknown, index: number): PatchOperation {
+  const fail = (message: string) =>
+    new JsonPatchError(`Patch operation ${index}: ${message}`, 400);
+
+  if (!isObject(operation)) throw fail("must be an object");
+  const { op, path, from } = operation;
+  if (!PATCH_OPERATIONS.includes(op as PatchOperation["op"])) {
+    throw fail(`op must be one of: ${PATCH_OPERATIONS.join(", ")}`);
+  }
+  if (typeof path !== "string") throw fail("path must be a string");
+  parsePointer(path);
+  if ((op === "move" || op === "copy") && typeof from !== "string") {
+    throw fail("from must be a string");
+  }
+  if (typeof from === "string") parsePointer(from);
+  if (
+    (op === "add" || op === "replace" || op === "test") &&
+    !hasMember(operation, "value")
+  ) {
+    throw fail("value is required");
+  }
+  return operation as unknown as PatchOperation;
+}
+
+/**
+ * Apply an RFC 6902 patch. Operations apply in order to a copy of the
+ * document, so a failing operation leaves the original untouched.
+ */
+export function applyJsonPatch(document: JsonValue, patch: unknown): JsonValue {
+  if (!Array.isArray(patch)) {
+    throw new JsonPatchError("JSON Patch must be an array of operations", 400);
+  }
+  const operations = patch.map(validateOperation);
+
+  let result: JsonValue = structuredClone(document);
+
+  const get = (pointer: string): JsonValue => {
+    const found = find(result, parsePointer(pointer));
+    if (!found.found) {
+      throw new JsonPatchError(`Nothing at ${pointer}`, 409);
+    }
+    return found.value;
+  };
+
+  // The container a pointer's last token refers into
+  const parentOf = (pointer: string) => {
+    const tokens = parsePointer(pointer);
+    const key = tokens.pop()!;
+    const parent = find(result, tokens);
+    if (
+      !parent.found ||
+      (!Array.isArray(parent.value) && !isObject(parent.value))
+    ) {
+      throw new JsonPatchError(`No object or array to hold ${pointer}`, 409);
+    }
+    return { parent: parent.value, key };
+  };
+
+  const add = (pointer: string, value: JsonValue) => {
+    if (pointer === "") {
+      result = value;
+      return;
+    }
+    const { parent, key } = parentOf(pointer);
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+    } else {
+      setMember(parent, key, value);
+    }
+  };
+
+  const remove = (pointer: string): JsonValue => {
+    if (pointer === "") {
+      throw new JsonPatchError("Cannot remove the whole document", 409);
+    }
+    const { parent, key } = parentOf(pointer);
+    if (Array.isArray(parent)) {
+      return parent.splice(arrayIndex(parent, key, pointer, false), 1)[0];
+    }
+    if (!hasMember(parent, key)) {
+      throw new JsonPatchError(`Nothing at ${pointer}`, 409);
+    }
+    const value = parent[key];
+    delete parent[key];
+    return value;
+  };
+
+  const replace = (pointer: string, value: JsonValue) => {
+    if (pointer === "") {
+      result = value;
+      return;
+    }
+    const { parent, key } = parentOf(pointer);
+    if (Array.isArray(parent)) {
+      parent[arrayIndex(parent, key, pointer, false)] = value;
+    } else if (hasMember(parent, key)) {
+      setMember(parent, key, value);
+    } else {
+      throw new JsonPatchError(`Nothing at ${pointer}`, 409);
+    }
+  };
+
+  for (const operation of operations) {
+    const { op, path, from, value } = operation;
+    switch (op) {
+      case "add":
+        add(path, structuredClone(value!));
+        break;
+      case "remove":
+        remove(path);
+        break;
+      case "replace":
+        replace(path, structuredClone(value!));
+        break;
+      case "move":
+        if (path !== from && path.startsWith(`${from}/`)) {
+          throw new JsonPatchError(
+            `Cannot move ${from} into one of its own children`,
+            409,
+          );
+        }
+        if (path !== from) add(path, remove(from!));
+        else get(from);
+        break;
+      case "copy":
+        add(path, structuredClone(get(from!)));
+        break;
+      case "test":
+        if (!jsonEqual(get(path), value!)) {
+          throw new JsonPatchError(`Test failed at ${path || "/"}`, 409);
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply an RFC 7386 merge patch: objects merge recursively, null removes a
+ * member and anything else replaces the target.
+ */
+export function applyMergePatch(
+  target: JsonValue,
+  patch: JsonValue,
+): JsonValue {
+  if (!isObject(patch)) return structuredClone(patch);
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const key of Object.keys(patch)) {
+    const value = patch[key];
+    if (value === null) {
+      delete result[key];
+    } else {
+      setMember(
+        result,
+        key,
+        applyMergePatch(hasMember(result, key) ? result[key] : null, value),
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialise value the way original was written: same indentation and
+ * trailing newline, or compact if it was on one line
+ */
+export function stringifyLike(original: string, value: JsonValue): string {
+  const indent = original.match(/^[[{][ \t]*\r?\n([ \t]+)\S/)?.[1];
+  const text = JSON.stringify(value, null, indent);
+  return /\n$/.test(original) ? `${text}\n` : text;
+}
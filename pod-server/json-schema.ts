@@ -0,0 +1,557 @@
+/**
+ * JSON Schema validation for the keywords apps use to describe their data:
+ * draft 2020-12, also accepting the draft-07 spellings (`definitions`,
+ * array-form `items` with `additionalItems`). `format` and other unknown
+ * keywords are annotations and aren't checked. `$ref` only resolves within
+ * the same schema document.
+ */
+
+import { jsonEqual, type JsonValue } from "./json-patch";
+
+export interface ValidationIssue {
+  // JSON Pointer to the failing value in the document, "" for the root
+  instancePath: string;
+  // Location of the failing keyword in the schema, like #/properties/title
+  schemaPath: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Thrown for a schema that can't be used to validate anything
+ */
+export class SchemaError extends Error {
+  constructor(
+    message: string,
+    readonly schemaPath: string,
+  ) {
+    super(`Invalid schema at ${schemaPath}: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+type SchemaObject = { [keyword: string]: any };
+type Schema = boolean | SchemaObject;
+
+const TYPES = [
+  "null",
+  "boolean",
+  "object",
+  "array",
+  "number",
+  "string",
+  "integer",
+];
+
+// Keywords holding one subschema, an array of them or a map of them
+const SUBSCHEMA_KEYWORDS = [
+  "additionalProperties",
+  "propertyNames",
+  "additionalItems",
+  "contains",
+  "not",
+  "if",
+  "then",
+  "else",
+];
+const SUBSCHEMA_ARRAY_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems"];
+const SUBSCHEMA_MAP_KEYWORDS = [
+  "properties",
+  "patternProperties",
+  "$defs",
+  "definitions",
+];
+const NUMBER_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+];
+const COUNT_KEYWORDS = [
+  "minLength",
+  "maxLength",
+  "minItems",
+  "maxItems",
+  "minContains",
+  "maxContains",
+  "minProperties",
+  "maxProperties",
+];
+
+// Deep enough for recursive schemas, shallow enough to stop a $ref loop
+const MAX_REF_DEPTH = 128;
+
+function isObject(value: unknown): value is SchemaObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function hasMember(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function compilePattern(pattern: string, schemaPath: string): RegExp {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    throw new SchemaError(`invalid regular expression ${pattern}`, schemaPath);
+  }
+}
+
+function resolveRef(root: Schema, ref: string, schemaPath: string): Schema {
+  const unresolvable = () =>
+    new SchemaError(`cannot resolve $ref ${ref}`, schemaPath);
+  if (!ref.startsWith("#")) throw unresolvable();
+
+  let pointer: string;
+  try {
+    pointer = decodeURIComponent(ref.slice(1));
+  } catch {
+    throw unresolvable();
+  }
+  if (pointer !== "" && !pointer.startsWith("/")) throw unresolvable();
+
+  let target: unknown = root;
+  const tokens = pointer === "" ? [] : pointer.slice(1).split("/");
+  for (const token of tokens) {
+    const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (target === null || typeof target !== "object") throw unresolvable();
+    if (!hasMember(target, key)) throw unresolvable();
+    target = (target as SchemaObject)[key];
+  }
+  if (typeof target !== "boolean" && !isObject(target)) throw unresolvable();
+  return target;
+}
+
+/**
+ * Throw a SchemaError unless schema is usable: known keywords have values
+ * of the right shape, patterns compile and every $ref resolves.
+ */
+export function checkSchema(schema: unknown): void {
+  const root = schema as Schema;
+
+  const visit = (schema: unknown, schemaPath: string): void => {
+    if (typeof schema === "boolean") return;
+    if (!isObject(schema)) {
+      throw new SchemaError("must be an object or a boolean", schemaPath);
+    }
+
+    for (const [keyword, value] of Object.entries(schema)) {
+      const at = `${schemaPath}/${escapeToken(keyword)}`;
+      const fail = (message: string) => new SchemaError(message, at);
+
+      if (keyword === "type") {
+        const types = Array.isArray(value) ? value : [value];
+        if (!types.length || !types.every((type) => TYPES.includes(type))) {
+          throw fail(`type must be one of ${TYPES.join(", ")}`);
+        }
+      } else if (keyword === "required") {
+        if (
+          !Array.isArray(value) ||
+          !value.every((key) => typeof key === "string")
+        ) {
+          throw fail("required must be an array of strings");
+        }
+      } else if (keyword === "enum") {
+        if (!Array.isArray(value)) throw fail("enum must be an array");
+      } else if (keyword === "pattern") {
+        if (typeof value !== "string") throw fail("pattern must be a string");
+        compilePattern(value, at);
+      } else if (keyword === "multipleOf") {
+        if (typeof value !== "number" || value <= 0) {
+          throw fail("multipleOf must be a positive number");
+        }
+      } else if (NUMBER_KEYWORDS.includes(keyword)) {
+        if (typeof value !== "number")
+          throw fail(`${keyword} must be a number`);
+      } else if (COUNT_KEYWORDS.includes(keyword)) {
+        if (!Number.isInteger(value) || value < 0) {
+          throw fail(`${keyword} must be a non-negative integer`);
+        }
+      } else if (keyword === "uniqueItems") {
+        if (typeof value !== "boolean") {
+          throw fail("uniqueItems must be a boolean");
+        }
+      } else if (keyword === "dependentRequired") {
+        if (
+          !isObject(value) ||
+          !Object.values(value).every(
+            (keys) =>
+              Array.isArray(keys) &&
+              keys.every((key) => typeof key === "string"),
+          )
+        ) {
+          throw fail("dependentRequired must map names to arrays of strings");
+        }
+      } else if (keyword === "$ref") {
+        if (typeof value !== "string") throw fail("$ref must be a string");
+        resolveRef(root, value, at);
+      } else if (keyword === "items") {
+        if (Array.isArray(value)) {
+          value.forEach((item, i) => visit(item, `${at}/${i}`));
+        } else {
+          visit(value, at);
+        }
+      } else if (SUBSCHEMA_KEYWORDS.includes(keyword)) {
+        visit(value, at);
+      } else if (SUBSCHEMA_ARRAY_KEYWORDS.includes(keyword)) {
+        if (!Array.isArray(value) || value.length === 0) {
+          throw fail(`${keyword} must be a non-empty array of schemas`);
+        }
+        value.forEach((item, i) => visit(item, `${at}/${i}`));
+      } else if (SUBSCHEMA_MAP_KEYWORDS.includes(keyword)) {
+        if (!isObject(value)) throw fail(`${keyword} must be an object`);
+        for (const [key, item] of Object.entries(value)) {
+          if (keyword === "patternProperties") compilePattern(key, at);
+          visit(item, `${at}/${escapeToken(key)}`);
+        }
+      }
+    }
+  };
+
+  visit(root, "#");
+}
+
+function hasType(value: JsonValue, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check value against schema and return what doesn't match, at most
+ * maxIssues of it. An empty list means the value is valid. The schema
+ * should have passed checkSchema; a bad $ref still throws a SchemaError.
+ */
+export function validateSchema(
+  schema: unknown,
+  value: JsonValue,
+  maxIssues: number = 20,
+): ValidationIssue[] {
+  const root = schema as Schema;
+  const patterns = new Map<string, RegExp>();
+  const pattern = (source: string, schemaPath: string) => {
+    if (!patterns.has(source)) {
+      patterns.set(source, compilePattern(source, schemaPath));
+    }
+    return patterns.get(source)!;
+  };
+
+  const check = (
+    schema: Schema,
+    value: JsonValue,
+    instancePath: string,
+    schemaPath: string,
+    refDepth: number,
+  ): ValidationIssue[] => {
+    if (schema === true) return [];
+    if (schema === false) {
+      return [
+        {
+          instancePath,
+          schemaPath,
+          keyword: "false",
+          message: "no value is allowed here",
+        },
+      ];
+    }
+
+    const issues: ValidationIssue[] = [];
+    const fail = (keyword: string, message: string, path = instancePath) => {
+      issues.push({
+        instancePath: path,
+        schemaPath: `${schemaPath}/${escapeToken(keyword)}`,
+        keyword,
+        message,
+      });
+    };
+    // Issues of a subschema at keyword (a schema path relative to this one)
+    const sub = (
+      keyword: string,
+      subschema: Schema,
+      subvalue: JsonValue = value,
+      path: string = instancePath,
+      depth: number = refDepth,
+    ) => check(subschema, subvalue, path, `${schemaPath}/${keyword}`, depth);
+    const child = (key: string | number) =>
+      `${instancePath}/${escapeToken(String(key))}`;
+
+    if (typeof schema.$ref === "string") {
+      if (refDepth >= MAX_REF_DEPTH) {
+        throw new SchemaError("$ref nests too deeply", `${schemaPath}/$ref`);
+      }
+      const target = resolveRef(root, schema.$ref, `${schemaPath}/$ref`);
+      issues.push(...sub("$ref", target, value, instancePath, refDepth + 1));
+    }
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type)
+        ? schema.type
+        : [schema.type];
+      if (!types.some((type) => hasType(value, type))) {
+        fail("type", `must be ${types.join(" or ")}`);
+      }
+    }
+    if (
+      Array.isArray(schema.enum) &&
+      !schema.enum.some((allowed: JsonValue) => jsonEqual(allowed, value))
+    ) {
+      fail("enum", "must be one of the allowed values");
+    }
+    if (hasMember(schema, "const") && !jsonEqual(schema.const, value)) {
+      fail("const", `must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === "string") {
+      const length = [...value].length;
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        fail(
+          "minLength",
+          `must not have fewer than ${schema.minLength} characters`,
+        );
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        fail(
+          "maxLength",
+          `must not have more than ${schema.maxLength} characters`,
+        );
+      }
+      if (
+        typeof schema.pattern === "string" &&
+        !pattern(schema.pattern, `${schemaPath}/pattern`).test(value)
+      ) {
+        fail("pattern", `must match pattern ${schema.pattern}`);
+      }
+    }
+
+    if (typeof value === "number") {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        fail("minimum", `must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        fail("maximum", `must be <= ${schema.maximum}`);
+      }
+      if (
+        typeof schema.exclusiveMinimum === "number" &&
+        value <= schema.exclusiveMinimum
+      ) {
+        fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+      }
+      if (
+        typeof schema.exclusiveMaximum === "number" &&
+        value >= schema.exclusiveMaximum
+      ) {
+        fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+      }
+      if (schema.multipleOf !== undefined) {
+        const quotient = value / schema.multipleOf;
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          fail("multipleOf", `must be a multiple of ${schema.multipleOf}`);
+        }
+      }
+    }
+
+    if (Array.isArray(value)) {
+      // Draft 2020-12 prefixItems/items, or draft-07 items/additionalItems
+      const tupleKeyword = Array.isArray(schema.items)
+        ? "items"
+        : "prefixItems";
+      const restKeyword = Array.isArray(schema.items)
+        ? "additionalItems"
+        : "items";
+      const tuple: Schema[] = schema[tupleKeyword] ?? [];
+      const rest: Schema | undefined = schema[restKeyword];
+      value.forEach((item, i) => {
+        if (i < tuple.length) {
+          issues.push(...sub(`${tupleKeyword}/${i}`, tuple[i], item, child(i)));
+        } else if (rest !== undefined) {
+          issues.push(...sub(restKeyword, rest, item, child(i)));
+        }
+      });
+
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail("minItems", `must not have fewer than ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail("maxItems", `must not have more than ${schema.maxItems} items`);
+      }
+      if (schema.uniqueItems === true) {
+        const duplicate = value.findIndex((item, i) =>
+          value.slice(0, i).some((earlier) => jsonEqual(earlier, item)),
+        );
+        if (duplicate >= 0) {
+          fail(
+            "uniqueItems",
+            "must not have duplicate items",
+            child(duplicate),
+          );
+        }
+      }
+      if (schema.contains !== undefined) {
+        const matches = value.filter(
+          (item, i) =>
+            sub("contains", schema.contains, item, child(i)).length === 0,
+        ).length;
+        const min = schema.minContains ?? 1;
+        if (matches < min) {
+          fail("contains", `must contain at least ${min} matching items`);
+        }
+        if (schema.maxContains !== undefined && matches > schema.maxContains) {
+          fail(
+            "maxContains",
+            `must not contain more than ${schema.maxContains} matching items`,
+          );
+        }
+      }
+    }
+
+    if (isObject(value)) {
+      const object = value as { [key: string]: JsonValue };
+      const keys = Object.keys(object);
+      const properties: SchemaObject = isObject(schema.properties)
+        ? schema.properties
+        : {};
+      const patternProperties: SchemaObject = isObject(schema.patternProperties)
+        ? schema.patternProperties
+        : {};
+
+      for (const key of schema.required ?? []) {
+        if (!hasMember(value, key)) {
+          fail("required", `must have required property '${key}'`);
+        }
+      }
+      for (const [key, required] of Object.entries(
+        (schema.dependentRequired ?? {}) as Record<string, string[]>,
+      )) {
+        if (!hasMember(value, key)) continue;
+        for (const other of required) {
+          if (!hasMember(value, other)) {
+            fail(
+              "dependentRequired",
+              `must have property '${other}' when property '${key}' is present`,
+            );
+          }
+        }
+      }
+
+      for (const key of keys) {
+        let known = false;
+        if (hasMember(properties, key)) {
+          known = true;
+          issues.push(
+            ...sub(
+              `properties/${escapeToken(key)}`,
+              properties[key],
+              object[key],
+              child(key),
+            ),
+          );
+        }
+        for (const [source, subschema] of Object.entries(patternProperties)) {
+          if (!pattern(source, `${schemaPath}/patternProperties`).test(key)) {
+            continue;
+          }
+          known = true;
+          issues.push(
+            ...sub(
+              `patternProperties/${escapeToken(source)}`,
+              subschema,
+              object[key],
+              child(key),
+            ),
+          );
+        }
+        if (!known && schema.additionalProperties === false) {
+          fail(
+            "additionalProperties",
+            `must not have additional property '${key}'`,
+            child(key),
+          );
+        } else if (!known && schema.additionalProperties !== undefined) {
+          issues.push(
+            ...sub(
+              "additionalProperties",
+              schema.additionalProperties,
+              object[key],
+              child(key),
+            ),
+          );
+        }
+        if (schema.propertyNames !== undefined) {
+          issues.push(
+            ...sub("propertyNames", schema.propertyNames, key, child(key)),
+          );
+        }
+      }
+
+      if (
+        schema.minProperties !== undefined &&
+        keys.length < schema.minProperties
+      ) {
+        fail(
+          "minProperties",
+          `must not have fewer than ${schema.minProperties} properties`,
+        );
+      }
+      if (
+        schema.maxProperties !== undefined &&
+        keys.length > schema.maxProperties
+      ) {
+        fail(
+          "maxProperties",
+          `must not have more than ${schema.maxProperties} properties`,
+        );
+      }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((subschema: Schema, i: number) =>
+        issues.push(...sub(`allOf/${i}`, subschema)),
+      );
+    }
+    if (Array.isArray(schema.anyOf)) {
+      const matched = schema.anyOf.some(
+        (subschema: Schema, i: number) =>
+          sub(`anyOf/${i}`, subschema).length === 0,
+      );
+      if (!matched) fail("anyOf", "must match a schema in anyOf");
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const matches = schema.oneOf.filter(
+        (subschema: Schema, i: number) =>
+          sub(`oneOf/${i}`, subschema).length === 0,
+      ).length;
+      if (matches !== 1) {
+        fail(
+          "oneOf",
+          `must match exactly one schema in oneOf, matched ${matches}`,
+        );
+      }
+    }
+    if (schema.not !== undefined && sub("not", schema.not).length === 0) {
+      fail("not", "must not match the schema in not");
+    }
+    if (schema.if !== undefined) {
+      const branch = sub("if", schema.if).length === 0 ? "then" : "else";
+      if (schema[branch] !== undefined) {
+        issues.push(...sub(branch, schema[branch]));
+      }
+    }
+
+    return issues;
+  };
+
+  return check(root, value, "", "#", 0).slice(0, maxIssues);
+}
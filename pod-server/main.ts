@@ -8,8 +8,51 @@ import {
   studioMiddleware,
 } from "queryable-object";
 import { DurableObject } from "cloudflare:workers";
+import { createHash } from "node:crypto";
 import type { Env, ResourceUserContext } from "./types";
 import { oauthClientMiddleware, UserDO } from "./oauth-client";
+import { unifiedDiff } from "./diff";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  getPointer,
+  JsonPatchError,
+  stringifyLike,
+  type JsonValue,
+} from "./json-patch";
+import {
+  ARCHIVE_CONTENT_TYPES,
+  ARCHIVE_FORMATS,
+  readArchive,
+  writeArchive,
+  type ArchiveEntry,
+  type ArchiveFormat,
+  type ArchiveItem,
+} from "./archive";
+import {
+  checkSchema,
+  SchemaError,
+  validateSchema,
+  type ValidationIssue,
+} from "./json-schema";
+import {
+  CORS_ALLOWED_HEADERS,
+  CORS_EXPOSED_HEADERS,
+  scopeMatches,
+  USER_DO_PREFIX,
+} from "./utils";
+import { runMigrations, schemaStatus, type Migration } from "./migrations";
+import { ResumableSha256 } from "./sha256";
+import {
+  normalizePath,
+  PathError,
+  pathFromURL,
+  requiredScope,
+  scopeResource,
+  userPath,
+  validateName,
+  type ScopeAction,
+} from "./paths";
 import {
   oauthProviderMiddleware,
   tokenValidationMiddleware,
@@ -18,10 +61,216 @@ export { UserDO };
 
 const DO_NAME_SUFFIX = ":v1";
 
+// Node types allowed by the `nodes.type` CHECK constraint. Binary nodes keep
+// their bytes in the FILES bucket and store the object key in `content`;
+// links store the full path they point at.
+const NODE_TYPES = ["file", "folder", "binary", "link"] as const;
+type NodeType = (typeof NODE_TYPES)[number];
+
+// Links pointing at links are followed this many times before giving up
+const MAX_LINK_HOPS = 16;
+
+// Oldest revisions beyond this count are pruned on every write
+const MAX_REVISIONS_PER_FILE = 100;
+
+// Columns copied between `nodes`, `trash` and `snapshot_nodes` (everything
+// except the id)
+const NODE_COLUMNS = [
+  "path",
+  "name",
+  "parent_path",
+  "type",
+  "size",
+  "created_at",
+  "updated_at",
+  "content",
+  "updated_by",
+  "mime_type",
+  "chunks",
+  "hash",
+  "digest",
+  "expires_at",
+];
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Storage per user unless STORAGE_QUOTA_BYTES says otherwise
+const DEFAULT_STORAGE_QUOTA_BYTES = 1024 * 1024 * 1024;
+
+const MAX_BATCH_OPERATIONS = 1000;
+
+// Most records one log append carries or one log read returns
+const MAX_LOG_RECORDS = 1000;
+const DEFAULT_LOG_READ_LIMIT = 100;
+const LOG_MIME_TYPE = "application/x-ndjson";
+
+// A folder's JSON files must match the schema in this file, if it has one
+const SCHEMA_FILE_NAME = ".schema.json";
+
+// Fields JSON files can be indexed on: dotted member names, ending in []
+// to index each element of an array
+const INDEX_FIELD_PATTERN = /^[A-Za-z0-9_$-]+(\.[A-Za-z0-9_$-]+)*(\[\])?$/;
+const MAX_INDEX_FIELDS = 20;
+const MAX_QUERY_RESULTS = 1000;
+const QUERY_OPERATORS: Record<string, string> = {
+  eq: "=",
+  ne: "=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  in: "IN",
+};
+
+// The change feed keeps this many of the latest changes. Clients with an
+// older cursor have to list the tree again.
+const MAX_CHANGE_FEED_ENTRIES = 100000;
+const DEFAULT_CHANGES_LIMIT = 100;
+const MAX_CHANGES_LIMIT = 1000;
+
+// Algorithms Content-Digest and Repr-Digest headers can use, by their
+// RFC 9530 names
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  "sha-256": "sha256",
+  "sha-512": "sha512",
+};
+
+// Advisory locks expire after this many seconds unless refreshed
+const DEFAULT_LOCK_TTL = 300;
+const MAX_LOCK_TTL = 24 * 60 * 60;
+const MAX_LOCK_OWNER_LENGTH = 256;
+
+// Patch formats PATCH accepts, by Content-Type
+const JSON_PATCH_TYPES: Record<string, "json-patch" | "merge-patch"> = {
+  "application/json-patch+json": "json-patch",
+  "application/merge-patch+json": "merge-patch",
+};
+
+// What import does with files that already exist: fail, replace them or
+// keep them. Folders in the archive are always merged.
+const IMPORT_CONFLICT_MODES = ["error", "overwrite", "skip"] as const;
+type ImportConflictMode = (typeof IMPORT_CONFLICT_MODES)[number];
+
+const MAX_IMPORT_ENTRIES = 10000;
+const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+
+// Paths and scopes each API endpoint needs, from its request body (the query
+// for import). Missing paths mean the user root. Batch checks each of its
+// operations instead, import also checks every archive entry, and query and
+// changes leave out the results the token can't read.
+const API_ACCESS: Record<string, (data: any) => [ScopeAction, unknown][]> = {
+  grep: (data) => [["read", data.path]],
+  find: (data) => [["read", data.path]],
+  stat: (data) => [["read", data.path]],
+  du: (data) => [["read", data.path]],
+  head: (data) => [["read", data.path]],
+  tail: (data) => [["read", data.path]],
+  wc: (data) => [["read", data.path]],
+  append: (data) => [["append", data.path]],
+  "log-append": (data) => [["append", data.path]],
+  history: (data) => [["read", data.path]],
+  diff: (data) => [["read", data.path]],
+  restore: (data) => [["write", data.path]],
+  metadata: (data) => [["read", data.path]],
+  "set-metadata": (data) => [["write", data.path]],
+  "delete-metadata": (data) => [["write", data.path]],
+  "set-expiry": (data) => [["write", data.path]],
+  tag: (data) => [["write", data.path]],
+  untag: (data) => [["write", data.path]],
+  tags: (data) => [["read", data.node ?? data.path]],
+  "visible-nodes": () => [["read", "/"]],
+  "set-indexes": (data) => [["write", data.path]],
+  indexes: (data) => [["read", data.path]],
+  query: () => [],
+  changes: () => [],
+  lock: (data) => [["write", data.path]],
+  unlock: (data) => [["write", data.path]],
+  "create-file": (data) => [["write", data.path]],
+  "create-link": (data) => [
+    ["write", data.path],
+    ["read", data.target],
+  ],
+  "create-folder": (data) => [["write", data.path]],
+  "copy-node": (data) => [
+    ["read", data.sourcePath],
+    ["write", data.targetPath],
+  ],
+  "move-node": (data) => [
+    ["write", data.sourcePath],
+    ["write", data.targetPath],
+  ],
+  "rename-node": (data) => [
+    ["write", data.path],
+    ["write", String(data.path ?? "").replace(/[^/]*$/, data.newName ?? "")],
+  ],
+  "delete-node": (data) => [["write", data.path]],
+  trash: () => [["read", "/"]],
+  "restore-trash": (data) => [["write", data.targetPath]],
+  "purge-trash": () => [["write", "/"]],
+  snapshots: (data) => [["read", data.path]],
+  "restore-snapshot": (data) => [["write", data.path]],
+  "delete-snapshot": () => [["write", "/"]],
+  import: (data) => [["write", data.path]],
+  "get-next-name": (data) => [["read", data.basePath]],
+  diagnostics: () => [["read", "/"]],
+};
+
+// Blobs longer than this (in UTF-16 code units) are stored in chunks of this
+// size (see createChunkTables) instead of the `content` column
+const CHUNK_SIZE = 64 * 1024;
+
+// Limits for per-node metadata; values are stored as JSON text
+const MAX_METADATA_KEY_LENGTH = 256;
+const MAX_METADATA_VALUE_LENGTH = 64 * 1024;
+
+const MAX_TAG_LENGTH = 128;
+
+// Per-node tables keyed by path that move and get trashed with their node
+const NODE_DATA_TABLES = ["node_metadata", "node_tags"];
+
+// What copy and move do when the target path already exists: fail, trash
+// the target first, or merge folders and replace conflicting files
+const CONFLICT_MODES = ["error", "overwrite", "merge"] as const;
+type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+// MIME types guessed from the file extension when a write doesn't name one
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  js: "application/javascript",
+  mjs: "application/javascript",
+  ts: "application/typescript",
+  json: "application/json",
+  jsonl: "application/x-ndjson",
+  ndjson: "application/x-ndjson",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  zip: "application/zip",
+};
+
 interface Session {
   webSocket: WebSocket;
   path: string;
   username: string;
+  clientId: string | null;
   name: string;
   profile_image_url: string;
 }
@@ -35,8 +284,12 @@ interface WSMessage {
   username?: string;
   fromSession?: string;
   path?: string;
+  action?: FileChange["action"] | "batch";
   sessions?: Session[];
   files?: FileNode[];
+  changes?: FileChange[];
+  records?: LogRecord[];
+  lock?: LockInfo | null;
   line?: number;
   column?: number;
 }
@@ -46,11 +299,125 @@ interface FileNode extends Record<string, any> {
   path: string;
   name: string;
   parent_path: string | null;
-  type: "file" | "folder";
+  type: NodeType;
   size: number;
   created_at: number;
   updated_at: number;
   content?: string;
+  mime_type?: string | null;
+}
+
+interface Revision {
+  id: number;
+  path: string;
+  size: number;
+  created_at: number;
+  replaced_at: number;
+  client_id: string | null;
+  content?: string;
+}
+
+interface Snapshot {
+  id: string;
+  name: string;
+  path: string;
+  created_at: number;
+  item_count: number;
+  size: number;
+}
+
+interface TrashEntry {
+  trash_id: string;
+  path: string;
+  type: NodeType;
+  size: number;
+  item_count: number;
+  deleted_at: number;
+  expires_at: number;
+}
+
+interface BatchOperation {
+  op:
+    | "write"
+    | "create-file"
+    | "create-folder"
+    | "create-link"
+    | "append"
+    | "delete"
+    | "move"
+    | "copy"
+    | "rename"
+    | "set-metadata"
+    | "delete-metadata"
+    | "tag"
+    | "untag";
+  path?: string;
+  content?: string;
+  mimeType?: string;
+  target?: string;
+  sourcePath?: string;
+  targetPath?: string;
+  newName?: string;
+  metadata?: Record<string, unknown>;
+  keys?: string[];
+  tags?: string | string[];
+  mode?: ConflictMode;
+}
+
+interface BatchResult {
+  index: number;
+  op: string;
+  status: "ok" | "failed" | "skipped" | "rolled_back";
+  path?: string;
+  trashId?: string;
+  error?: string;
+  schema?: string;
+  errors?: ValidationIssue[];
+  lock?: LockInfo;
+}
+
+interface JSONIndex {
+  path: string;
+  fields: string[];
+  created_at: number;
+}
+
+interface QueryResult {
+  path: string;
+  size: number;
+  updated_at: number;
+  fields: Record<string, unknown>;
+}
+
+// A change to a node in the change feed. cursor grows with every change.
+interface ChangeEntry {
+  cursor: number;
+  path: string;
+  action: "create" | "update" | "delete" | "move" | "rename";
+  old_path: string | null;
+  type: NodeType;
+  created_at: number;
+}
+
+// An advisory lock as others see it; the token stays with the holder
+interface LockInfo {
+  path: string;
+  owner: string;
+  created_at: number;
+  expires_at: number;
+}
+
+// One line of a log file. seq starts at 1 and grows by one per record.
+interface LogRecord {
+  seq: number;
+  created_at: number;
+  data: unknown;
+}
+
+interface FileChange {
+  action: "create" | "update" | "delete" | "move" | "rename" | "copy";
+  path: string;
+  oldPath?: string;
 }
 
 interface GrepResult {
@@ -64,10 +431,353 @@ interface GrepResult {
 interface FindResult {
   path: string;
   name: string;
-  type: "file" | "folder";
+  type: NodeType;
   size: number;
   created_at: number;
   updated_at: number;
+  mime_type: string | null;
+  target: string | null;
+  expires_at: number | null;
+  sha256: string | null;
+}
+
+// Scopes forwarded by the worker; null means the request isn't scope-limited
+function parseScopesHeader(header: string | null): string[] | null {
+  return header === null ? null : header.split(" ").filter((s) => s);
+}
+
+// Media type of a Content-Type header, without parameters
+function parseMimeType(contentType: string | null): string {
+  return (contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+function mimeTypeFromPath(path: string): string {
+  const name = path.split("/").pop() || "";
+  const dot = name.lastIndexOf(".");
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+  return MIME_TYPES_BY_EXTENSION[extension] || "text/plain";
+}
+
+// Content types stored as text in the nodes table; anything else is binary
+function isTextContentType(contentType: string | null): boolean {
+  if (!contentType) return true;
+  const mimeType = parseMimeType(contentType);
+  return (
+    mimeType === "" ||
+    mimeType.startsWith("text/") ||
+    mimeType === "application/json" ||
+    mimeType === "application/xml" ||
+    mimeType === "application/javascript" ||
+    mimeType === "application/x-ndjson" ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml")
+  );
+}
+
+// Text of an imported file, or null when it has to be stored as binary
+function decodeImportedText(path: string, data: Uint8Array): string | null {
+  if (!isTextContentType(mimeTypeFromPath(path))) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(
+      data,
+    );
+  } catch {
+    return null;
+  }
+}
+
+function utf8ByteLength(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      // Surrogate pair: one 4-byte character
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
+// Longest start of text that fits in bytes UTF-8 bytes, in whole characters
+function utf8Head(text: string, bytes: number): string {
+  const { read } = new TextEncoder().encodeInto(
+    text,
+    new Uint8Array(Math.max(0, bytes)),
+  );
+  return text.slice(0, read);
+}
+
+// Longest end of text that fits in bytes UTF-8 bytes, in whole characters
+function utf8Tail(text: string, bytes: number): string {
+  let start = text.length;
+  let used = 0;
+  while (start > 0) {
+    let from = start - 1;
+    const code = text.charCodeAt(from);
+    if (code >= 0xdc00 && code <= 0xdfff && from > 0) {
+      const high = text.charCodeAt(from - 1);
+      if (high >= 0xd800 && high <= 0xdbff) from--;
+    }
+    used += utf8ByteLength(text.slice(from, start));
+    if (used > bytes) break;
+    start = from;
+  }
+  return text.slice(start);
+}
+
+// Number of Unicode characters in text, counting a surrogate pair once
+function codePointLength(text: string): number {
+  let length = text.length;
+  for (let i = 1; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const previous = text.charCodeAt(i - 1);
+    if (
+      code >= 0xdc00 &&
+      code <= 0xdfff &&
+      previous >= 0xd800 &&
+      previous <= 0xdbff
+    ) {
+      length--;
+      i++;
+    }
+  }
+  return length;
+}
+
+// Split text into chunks without separating surrogate pairs
+function splitChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && last >= 0xd800 && last <= 0xdbff) end--;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * SQL condition matching a node and everything below it. Binds the root path
+ * three times. Unlike LIKE, it treats `%` and `_` in paths literally.
+ */
+function subtreeSQL(column: string = "path"): string {
+  return `(${column} = ? OR substr(${column}, 1, length(?) + 1) = ? || '/')`;
+}
+
+/**
+ * Statements adding the index values of the JSON files where condition holds
+ * (on t.path, a file, and i, an index of a folder above it)
+ */
+function jsonIndexValuesSQL(condition: string): string[] {
+  const scalar = `('integer', 'real', 'text', 'true', 'false')`;
+  const covering = `substr(t.path, 1, length(i.folder) + 1) = i.folder || '/'`;
+  return [
+    `INSERT INTO json_index_values (path, folder, field, value)
+     SELECT t.path, i.folder, i.field, json_extract(t.json, i.json_path)
+     FROM json_texts t JOIN json_indexes i ON ${covering}
+     WHERE ${condition} AND i.is_array = 0
+       AND json_type(t.json, i.json_path) IN ${scalar}`,
+    `INSERT INTO json_index_values (path, folder, field, value)
+     SELECT t.path, i.folder, i.field, e.value
+     FROM json_texts t JOIN json_indexes i ON ${covering},
+       json_each(t.json, i.json_path) e
+     WHERE ${condition} AND i.is_array = 1 AND e.type IN ${scalar}`,
+  ];
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * SQL for the SHA-256 (hex) of a node's content: the blob hash of text files
+ * (empty files have none) and the recorded digest of binary files
+ */
+function sha256SQL(table?: string): string {
+  const column = (name: string) => (table ? `${table}.${name}` : name);
+  return `CASE ${column("type")}
+    WHEN 'file' THEN COALESCE(${column("hash")}, '${sha256Hex("")}')
+    WHEN 'binary' THEN ${column("digest")}
+  END`;
+}
+
+/**
+ * Check a Content-Digest or Repr-Digest header (RFC 9530) against data.
+ * Every supported algorithm in it must match; others are ignored.
+ */
+function checkDigest(
+  name: string,
+  header: string,
+  data: string | Uint8Array,
+): void {
+  const entries = header.split(",").map((entry) => {
+    const match = entry.trim().match(/^([a-z0-9-]+)=:([A-Za-z0-9+/]*=*):$/);
+    if (!match) throw new Error(`Malformed ${name} header`);
+    return { algorithm: match[1], expected: match[2] };
+  });
+  const supported = entries.filter(
+    ({ algorithm }) => DIGEST_ALGORITHMS[algorithm],
+  );
+  if (supported.length === 0) {
+    throw new Error(
+      `${name} must use one of: ${Object.keys(DIGEST_ALGORITHMS).join(", ")}`,
+    );
+  }
+  for (const { algorithm, expected } of supported) {
+    const actual = createHash(DIGEST_ALGORITHMS[algorithm])
+      .update(data)
+      .digest("base64");
+    if (actual !== expected) {
+      throw new Error(`${name} ${algorithm} does not match the content`);
+    }
+  }
+}
+
+/**
+ * Thrown when a write would exceed a storage quota. The status is 413 when
+ * the write could never fit and 507 when there isn't enough space left.
+ */
+class QuotaError extends Error {
+  constructor(
+    message: string,
+    readonly status: 413 | 507,
+  ) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+/**
+ * Thrown when a JSON file doesn't match the schema of a folder it is in.
+ * schema is the path of the schema file.
+ */
+class SchemaValidationError extends Error {
+  readonly status = 422;
+
+  constructor(
+    readonly schema: string,
+    readonly errors: ValidationIssue[],
+  ) {
+    super(`Content does not match the schema at ${schema}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * Thrown when a write would touch a path someone else holds a lock on
+ */
+class LockedError extends Error {
+  readonly status = 423;
+
+  constructor(readonly lock: LockInfo) {
+    super(`${lock.path} is locked by ${lock.owner}`);
+    this.name = "LockedError";
+  }
+}
+
+// HTTP status for an error thrown by a write
+function errorStatus(error: unknown): number {
+  return error instanceof QuotaError ||
+    error instanceof SchemaValidationError ||
+    error instanceof LockedError
+    ? error.status
+    : 400;
+}
+
+// What an error response carries besides the message
+function errorDetails(error: unknown): {
+  schema?: string;
+  errors?: ValidationIssue[];
+  lock?: LockInfo;
+} {
+  if (error instanceof LockedError) return { lock: error.lock };
+  return error instanceof SchemaValidationError
+    ? { schema: error.schema, errors: error.errors }
+    : {};
+}
+
+/**
+ * Expiry time from a TTL in seconds or an expires_at Unix time, either of
+ * which may come from a header. Undefined when neither is given.
+ */
+function parseExpiry(ttl: unknown, expiresAt: unknown): number | undefined {
+  const now = Math.round(Date.now() / 1000);
+  if (ttl != null && expiresAt != null) {
+    throw new Error("Give a ttl or an expiry time, not both");
+  }
+  if (ttl != null) {
+    const seconds = Number(ttl);
+    if (!Number.isInteger(seconds) || seconds < 1) {
+      throw new Error("ttl must be a positive whole number of seconds");
+    }
+    return now + seconds;
+  }
+  if (expiresAt != null) {
+    const time = Number(expiresAt);
+    if (!Number.isInteger(time) || time <= now) {
+      throw new Error("expires_at must be a Unix time in the future");
+    }
+    return time;
+  }
+  return undefined;
+}
+
+function parseLogRecord(line: string): LogRecord {
+  let record: LogRecord | null = null;
+  try {
+    record = JSON.parse(line);
+  } catch {}
+  if (
+    !record ||
+    typeof record !== "object" ||
+    !Number.isSafeInteger(record.seq)
+  ) {
+    throw new Error("Not a log file: found a line that is not a log record");
+  }
+  return record;
+}
+
+function httpDate(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toUTCString();
+}
+
+// Parse an If-Match / If-None-Match header into its list of entity tags
+function parseETagList(header: string): string[] {
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .filter((tag) => tag);
+}
+
+/**
+ * Parse a single-range Range header against a resource of the given size.
+ * Returns null when the header should be ignored (absent, malformed or
+ * multiple ranges) and "unsatisfiable" when no byte of the range exists.
+ */
+function parseRange(
+  header: string | null,
+  size: number,
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  if (match[1] === "") {
+    // Suffix range: the last n bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (match[2] !== "" && Number(match[2]) < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
 }
 
 // Helper function to add CORS headers to any response
@@ -78,9 +788,9 @@ function addCorsHeaders(response: Response): Response {
 
   const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-    "Access-Control-Allow-Headers":
-      "Content-Type, Authorization, x-username, x-api-key",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+    "Access-Control-Expose-Headers": CORS_EXPOSED_HEADERS,
     "Access-Control-Max-Age": "0",
   };
 
@@ -100,6 +810,10 @@ function addCorsHeaders(response: Response): Response {
 export class TextDO extends DurableObject {
   private sessions: Map<string, Session> = new Map();
   private version: number = 0;
+  // Callbacks deferred until the current transaction commits
+  private afterCommit: (() => void)[] | null = null;
+  // Parsed folder schemas by blob hash
+  private schemaCache: Map<string, unknown> = new Map();
   public sql: SqlStorage;
   public env: Env;
 
@@ -110,80 +824,781 @@ export class TextDO extends DurableObject {
     super(state, env);
     this.sql = state.storage.sql;
     this.env = env;
-    this.initSQLite();
+    state.blockConcurrencyWhile(async () => {
+      runMigrations(state.storage, this.schemaMigrations());
+    });
   }
 
-  async initSQLite(): Promise<void> {
-    // Main nodes table for hierarchical file structure
+  // ==================== SCHEMA ====================
+
+  /**
+   * Schema changes in the order they were made. Pods record the last one
+   * they applied, see migrations.ts.
+   */
+  private schemaMigrations(): Migration[] {
+    return [
+      {
+        version: 1,
+        name: "initial schema",
+        up: () => this.createInitialSchema(),
+      },
+      {
+        version: 2,
+        name: "json field indexes",
+        up: () => this.createJSONIndexTables(),
+      },
+      {
+        version: 3,
+        name: "file locks",
+        up: () => this.createLockTable(),
+      },
+      {
+        version: 4,
+        name: "change feed",
+        up: () => this.createChangeFeed(),
+      },
+      {
+        version: 5,
+        name: "node expiry",
+        up: () => {
+          this.addColumnIfMissing("nodes", "expires_at", "INTEGER");
+          this.sql.exec(
+            `CREATE INDEX IF NOT EXISTS idx_nodes_expires_at ON nodes(expires_at) WHERE expires_at IS NOT NULL`,
+          );
+        },
+      },
+      {
+        version: 6,
+        name: "binary digests",
+        // SHA-256 of binary content. Text files have it as their blob hash.
+        up: () => {
+          for (const table of ["nodes", "trash", "snapshot_nodes"]) {
+            this.addColumnIfMissing(table, "digest", "TEXT");
+          }
+        },
+      },
+      {
+        version: 7,
+        name: "utf-8 sizes",
+        up: () => this.recountTextSizes(),
+      },
+      {
+        version: 8,
+        name: "shared chunks",
+        up: () => this.shareChunks(),
+      },
+      {
+        version: 9,
+        name: "expiry in trash and snapshots",
+        // A restored node expires when it would have
+        up: () => {
+          for (const table of ["trash", "snapshot_nodes"]) {
+            this.addColumnIfMissing(table, "expires_at", "INTEGER");
+          }
+        },
+      },
+    ];
+  }
+
+  /**
+   * Content of large blobs, split in order. A chunk's text is kept once in
+   * chunk_texts and blob_chunk_refs lists the chunks of each blob, so blobs
+   * that start with the same text share it and an append only writes the
+   * chunks it changes. `bytes` is the UTF-8 length so byte ranges can be
+   * mapped to chunks without reading them.
+   */
+  private createChunkTables(): void {
     this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS nodes (
+      CREATE TABLE IF NOT EXISTS chunk_texts (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        path TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        parent_path TEXT,
-        type TEXT CHECK(type IN ('file', 'folder')) NOT NULL,
-        size INTEGER DEFAULT 0,
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        updated_at INTEGER DEFAULT (strftime('%s', 'now')),
-        content TEXT
+        content TEXT NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS blob_chunk_refs (
+        hash TEXT NOT NULL,
+        idx INTEGER NOT NULL,
+        bytes INTEGER NOT NULL,
+        chunk INTEGER NOT NULL,
+        PRIMARY KEY (hash, idx)
       )
     `);
-
-    // Indexes for performance
-    this.sql.exec(
-      `CREATE INDEX IF NOT EXISTS idx_parent_path ON nodes(parent_path)`,
-    );
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_type ON nodes(type)`);
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_name ON nodes(name)`);
     this.sql.exec(
-      `CREATE INDEX IF NOT EXISTS idx_path_type ON nodes(path, type)`,
+      `CREATE INDEX IF NOT EXISTS idx_blob_chunk_refs_chunk ON blob_chunk_refs(chunk)`,
     );
+  }
 
-    // FTS5 virtual table for full-text search (grep)
-    // Note: We recreate if schema changed
-    try {
-      this.sql.exec(`
-        CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
-          path,
-          content,
-          content='nodes',
-          content_rowid='id'
-        )
-      `);
+  /**
+   * Move chunks out of blob_chunks, where every blob held its own copy, and
+   * keep the hash state appends resume from
+   */
+  private shareChunks(): void {
+    this.addColumnIfMissing("blobs", "sha256_state", "TEXT");
+    this.createChunkTables();
 
-      // Triggers to keep FTS in sync
-      this.sql.exec(`
-        CREATE TRIGGER IF NOT EXISTS nodes_ai AFTER INSERT ON nodes BEGIN
-          INSERT INTO nodes_fts(rowid, path, content) VALUES (new.id, new.path, new.content);
-        END
-      `);
+    const legacy = this.sql
+      .exec(
+        `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'blob_chunks'`,
+      )
+      .toArray();
+    this.sql.exec(`DROP VIEW IF EXISTS json_texts`);
+    if (legacy.length > 0) {
+      this.sql.exec(
+        `INSERT INTO chunk_texts (id, content) SELECT rowid, content FROM blob_chunks`,
+      );
+      this.sql.exec(
+        `INSERT INTO blob_chunk_refs (hash, idx, bytes, chunk)
+         SELECT hash, idx, bytes, rowid FROM blob_chunks`,
+      );
+      this.sql.exec(`DROP TABLE blob_chunks`);
+    }
+    this.createJSONTextsView();
+  }
 
-      this.sql.exec(`
-        CREATE TRIGGER IF NOT EXISTS nodes_ad AFTER DELETE ON nodes BEGIN
-          INSERT INTO nodes_fts(nodes_fts, rowid, path, content) VALUES('delete', old.id, old.path, old.content);
-        END
-      `);
+  // Text of JSON files, chunks joined, or NULL if it doesn't parse
+  private createJSONTextsView(): void {
+    this.sql.exec(`
+      CREATE VIEW IF NOT EXISTS json_texts AS
+      SELECT path, CASE WHEN json_valid(text) THEN text END AS json FROM (
+        SELECT n.path, COALESCE(b.content, (
+          SELECT group_concat(content, '') FROM (
+            SELECT t.content FROM blob_chunk_refs c
+            JOIN chunk_texts t ON t.id = c.chunk
+            WHERE c.hash = n.hash ORDER BY c.idx
+          )
+        )) AS text
+        FROM nodes n JOIN blobs b ON b.hash = n.hash
+        WHERE n.type = 'file'
+          AND (n.mime_type = 'application/json' OR n.mime_type LIKE '%+json')
+      )
+    `);
+  }
 
+  // Text sizes used to count UTF-16 code units; count UTF-8 bytes instead
+  private recountTextSizes(): void {
+    this.sql.exec(`
+      UPDATE blobs SET size = CASE
+        WHEN chunks > 0 THEN (SELECT COALESCE(SUM(bytes), 0) FROM blob_chunks WHERE blob_chunks.hash = blobs.hash)
+        ELSE length(CAST(COALESCE(content, '') AS BLOB))
+      END
+    `);
+    for (const table of ["nodes", "trash", "snapshot_nodes", "revisions"]) {
       this.sql.exec(`
-        CREATE TRIGGER IF NOT EXISTS nodes_au AFTER UPDATE ON nodes BEGIN
-          INSERT INTO nodes_fts(nodes_fts, rowid, path, content) VALUES('delete', old.id, old.path, old.content);
-          INSERT INTO nodes_fts(rowid, path, content) VALUES (new.id, new.path, new.content);
-        END
+        UPDATE ${table} SET size = (SELECT size FROM blobs WHERE blobs.hash = ${table}.hash)
+        WHERE hash IS NOT NULL
+          AND size IS NOT (SELECT size FROM blobs WHERE blobs.hash = ${table}.hash)
       `);
-    } catch (e) {
-      // FTS table might already exist with different schema, ignore
-      console.log("FTS setup note:", e);
     }
   }
 
-  async fetch(request: Request) {
-    if (request.method === "OPTIONS") {
-      return addCorsHeaders(new Response(null, { status: 200 }));
-    }
+  /**
+   * Every insert, update, move and delete of a node, in order. Triggers
+   * record them, so no write path can forget to.
+   */
+  private createChangeFeed(): void {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS changes (
+        cursor INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT NOT NULL,
+        action TEXT NOT NULL,
+        old_path TEXT,
+        type TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_changes_ai AFTER INSERT ON nodes BEGIN
+        INSERT INTO changes (path, action, type, created_at)
+        VALUES (new.path, 'create', new.type, strftime('%s', 'now'));
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_changes_au AFTER UPDATE ON nodes
+      WHEN old.path IS NOT new.path OR old.type IS NOT new.type
+        OR old.content IS NOT new.content OR old.hash IS NOT new.hash
+        OR old.size IS NOT new.size OR old.mime_type IS NOT new.mime_type
+        OR old.updated_at IS NOT new.updated_at BEGIN
+        INSERT INTO changes (path, action, old_path, type, created_at)
+        VALUES (
+          new.path,
+          CASE
+            WHEN old.path = new.path THEN 'update'
+            WHEN old.parent_path IS new.parent_path THEN 'rename'
+            ELSE 'move'
+          END,
+          CASE WHEN old.path <> new.path THEN old.path END,
+          new.type,
+          strftime('%s', 'now')
+        );
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_changes_ad AFTER DELETE ON nodes BEGIN
+        INSERT INTO changes (path, action, type, created_at)
+        VALUES (old.path, 'delete', old.type, strftime('%s', 'now'));
+      END
+    `);
+    // Compact every thousand changes. The limit is part of the trigger, so
+    // changing it takes a new migration.
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS changes_compact AFTER INSERT ON changes
+      WHEN new.cursor % 1000 = 0 BEGIN
+        DELETE FROM changes WHERE cursor <= new.cursor - ${MAX_CHANGE_FEED_ENTRIES};
+      END
+    `);
+  }
 
-    const url = new URL(request.url);
-    const path = url.pathname;
-    const username = request.headers.get("x-username") || "";
+  /**
+   * Advisory locks by path. A lock follows its node when it moves and goes
+   * away when it is deleted.
+   */
+  private createLockTable(): void {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS locks (
+        path TEXT PRIMARY KEY,
+        token TEXT NOT NULL UNIQUE,
+        owner TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_locks_au AFTER UPDATE OF path ON nodes
+      BEGIN
+        UPDATE OR REPLACE locks SET path = new.path WHERE path = old.path;
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_locks_ad AFTER DELETE ON nodes BEGIN
+        DELETE FROM locks WHERE path = old.path;
+      END
+    `);
+  }
+
+  /**
+   * Indexes over fields of JSON files, declared per folder. Triggers keep
+   * the values current through every write, move and delete.
+   */
+  private createJSONIndexTables(): void {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS json_indexes (
+        folder TEXT NOT NULL,
+        field TEXT NOT NULL,
+        json_path TEXT NOT NULL,
+        is_array INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (folder, field)
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS json_index_values (
+        path TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        field TEXT NOT NULL,
+        value
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_json_index_values ON json_index_values(folder, field, value)`,
+    );
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_json_index_values_path ON json_index_values(path)`,
+    );
+
+    // Text of JSON files, chunks joined, or NULL if it doesn't parse
+    this.sql.exec(`
+      CREATE VIEW IF NOT EXISTS json_texts AS
+      SELECT path, CASE WHEN json_valid(text) THEN text END AS json FROM (
+        SELECT n.path, COALESCE(b.content, (
+          SELECT group_concat(content, '') FROM (
+            SELECT content FROM blob_chunks c WHERE c.hash = n.hash ORDER BY idx
+          )
+        )) AS text
+        FROM nodes n JOIN blobs b ON b.hash = n.hash
+        WHERE n.type = 'file'
+          AND (n.mime_type = 'application/json' OR n.mime_type LIKE '%+json')
+      )
+    `);
+
+    const indexed = `EXISTS (SELECT 1 FROM json_indexes
+      WHERE substr(new.path, 1, length(folder) + 1) = folder || '/')`;
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_json_ai AFTER INSERT ON nodes
+      WHEN new.type = 'file' AND ${indexed} BEGIN
+        ${jsonIndexValuesSQL("t.path = new.path").join(";\n")};
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_json_ad AFTER DELETE ON nodes BEGIN
+        DELETE FROM json_index_values WHERE path = old.path;
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_json_au
+      AFTER UPDATE OF path, type, mime_type, hash ON nodes
+      WHEN ${indexed}
+        OR EXISTS (SELECT 1 FROM json_index_values WHERE path = old.path) BEGIN
+        DELETE FROM json_index_values WHERE path = old.path;
+        ${jsonIndexValuesSQL("t.path = new.path").join(";\n")};
+      END
+    `);
+  }
+
+  /**
+   * Everything pods had before versioned migrations, including the upgrades
+   * they needed along the way. Pods of any age can run it.
+   */
+  private createInitialSchema(): void {
+    // Text file contents, stored once per SHA-256 and shared by every node,
+    // trashed node, revision and snapshot with that content. `refs` counts
+    // them.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS blobs (
+        hash TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        chunks INTEGER NOT NULL DEFAULT 0,
+        content TEXT,
+        refs INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_blobs_unreferenced ON blobs(refs) WHERE refs <= 0`,
+    );
+
+    // Content of large blobs, split in order. `bytes` is the UTF-8 length
+    // so byte ranges can be mapped to chunks without reading them.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS blob_chunks (
+        hash TEXT NOT NULL,
+        idx INTEGER NOT NULL,
+        bytes INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        PRIMARY KEY (hash, idx)
+      )
+    `);
+
+    // Main nodes table for hierarchical file structure
+    this.sql.exec(this.nodesTableSQL("nodes"));
+    this.upgradeNodeTypes();
+    this.addColumnIfMissing("nodes", "updated_by", "TEXT");
+    this.addColumnIfMissing("nodes", "mime_type", "TEXT");
+    this.addColumnIfMissing("nodes", "chunks", "INTEGER DEFAULT 0");
+    this.addColumnIfMissing("nodes", "hash", "TEXT");
+
+    // Quotas chosen by the user: "user" caps their own storage below the
+    // operator's limit, "client:{id}" caps what one app may store
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS quotas (
+        subject TEXT PRIMARY KEY,
+        max_bytes INTEGER NOT NULL
+      )
+    `);
+
+    // Extended attributes, keyed by node path. Values are JSON text.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS node_metadata (
+        path TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (path, key)
+      )
+    `);
+
+    // Tags organise nodes independently of the folder hierarchy
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS node_tags (
+        path TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (path, tag)
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_node_tags_tag ON node_tags(tag)`,
+    );
+
+    // Prior file contents, recorded whenever a file is overwritten
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT NOT NULL,
+        content TEXT,
+        size INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        replaced_at INTEGER NOT NULL,
+        client_id TEXT,
+        hash TEXT
+      )
+    `);
+    this.addColumnIfMissing("revisions", "hash", "TEXT");
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_revisions_path ON revisions(path, created_at)`,
+    );
+
+    // Deleted nodes keep their original paths until restored or purged.
+    // All rows removed by one delete share a trash_id.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS trash (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trash_id TEXT NOT NULL,
+        root_path TEXT NOT NULL,
+        deleted_at INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent_path TEXT,
+        type TEXT NOT NULL,
+        size INTEGER DEFAULT 0,
+        created_at INTEGER,
+        updated_at INTEGER,
+        content TEXT,
+        updated_by TEXT,
+        mime_type TEXT,
+        metadata TEXT,
+        tags TEXT,
+        chunks INTEGER DEFAULT 0,
+        hash TEXT
+      )
+    `);
+    this.addColumnIfMissing("trash", "mime_type", "TEXT");
+    this.addColumnIfMissing("trash", "metadata", "TEXT");
+    this.addColumnIfMissing("trash", "tags", "TEXT");
+    this.addColumnIfMissing("trash", "chunks", "INTEGER DEFAULT 0");
+    this.addColumnIfMissing("trash", "hash", "TEXT");
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_trash_trash_id ON trash(trash_id)`,
+    );
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash(deleted_at)`,
+    );
+
+    // Named point-in-time copies of a subtree. Snapshot rows share content
+    // blobs and bucket objects with the nodes they were taken from.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        root_path TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        client_id TEXT
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS snapshot_nodes (
+        snapshot_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        name TEXT NOT NULL,
+        parent_path TEXT,
+        type TEXT NOT NULL,
+        size INTEGER DEFAULT 0,
+        created_at INTEGER,
+        updated_at INTEGER,
+        content TEXT,
+        updated_by TEXT,
+        mime_type TEXT,
+        chunks INTEGER DEFAULT 0,
+        hash TEXT,
+        metadata TEXT,
+        tags TEXT,
+        PRIMARY KEY (snapshot_id, path)
+      )
+    `);
+
+    // Indexes for performance
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_parent_path ON nodes(parent_path)`,
+    );
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_type ON nodes(type)`);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_name ON nodes(name)`);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS idx_path_type ON nodes(path, type)`,
+    );
+
+    for (const table of ["nodes", "trash", "revisions", "snapshot_nodes"]) {
+      this.createBlobRefTriggers(table);
+    }
+    this.upgradeContentToBlobs();
+
+    // FTS5 virtual table for full-text search (grep)
+    // File text lives in blobs, so the index reads it through a view
+    this.sql.exec(`
+      CREATE VIEW IF NOT EXISTS node_texts AS
+      SELECT n.id, n.path, b.content FROM nodes n
+      LEFT JOIN blobs b ON b.hash = n.hash
+    `);
+
+    // Pods indexed nodes.content directly before blobs existed. A new
+    // index is built from the nodes that are already there.
+    const fts = this.sql
+      .exec(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'nodes_fts'`,
+      )
+      .toArray()[0] as { sql: string } | undefined;
+    const rebuild = !fts || !fts.sql.includes("node_texts");
+    if (fts && rebuild) {
+      this.sql.exec(`DROP TABLE nodes_fts`);
+      for (const trigger of ["nodes_ai", "nodes_ad", "nodes_au"]) {
+        this.sql.exec(`DROP TRIGGER IF EXISTS ${trigger}`);
+      }
+    }
+
+    this.sql.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
+        path,
+        content,
+        content='node_texts',
+        content_rowid='id'
+      )
+    `);
+
+    // Triggers to keep FTS in sync
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_ai AFTER INSERT ON nodes BEGIN
+        INSERT INTO nodes_fts(rowid, path, content) VALUES (new.id, new.path,
+          (SELECT content FROM blobs WHERE hash = new.hash));
+      END
+    `);
+
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_ad AFTER DELETE ON nodes BEGIN
+        INSERT INTO nodes_fts(nodes_fts, rowid, path, content) VALUES('delete', old.id, old.path,
+          (SELECT content FROM blobs WHERE hash = old.hash));
+      END
+    `);
+
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS nodes_au AFTER UPDATE ON nodes BEGIN
+        INSERT INTO nodes_fts(nodes_fts, rowid, path, content) VALUES('delete', old.id, old.path,
+          (SELECT content FROM blobs WHERE hash = old.hash));
+        INSERT INTO nodes_fts(rowid, path, content) VALUES (new.id, new.path,
+          (SELECT content FROM blobs WHERE hash = new.hash));
+      END
+    `);
+
+    if (rebuild) {
+      this.sql.exec(`INSERT INTO nodes_fts(nodes_fts) VALUES('rebuild')`);
+    }
+  }
+
+  /**
+   * Run fn in a SQL transaction. Nested calls join the outer transaction, so
+   * a batch of operations commits or rolls back as a whole. Blobs nothing
+   * refers to any more are collected just before it commits.
+   */
+  private transaction<T>(fn: () => T): T {
+    if (this.afterCommit) return fn();
+
+    const afterCommit: (() => void)[] = [];
+    this.afterCommit = afterCommit;
+    let result: T;
+    try {
+      result = this.state.storage.transactionSync(() => {
+        const value = fn();
+        this.collectBlobs();
+        return value;
+      });
+    } finally {
+      this.afterCommit = null;
+    }
+    for (const callback of afterCommit) callback();
+    return result;
+  }
+
+  // Run side effects outside SQL (like bucket deletes) only once committed
+  private onCommit(callback: () => void): void {
+    if (this.afterCommit) {
+      this.afterCommit.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  private nodesTableSQL(table: string): string {
+    const types = NODE_TYPES.map((type) => `'${type}'`).join(", ");
+    return `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        parent_path TEXT,
+        type TEXT CHECK(type IN (${types})) NOT NULL,
+        size INTEGER DEFAULT 0,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+        content TEXT,
+        updated_by TEXT,
+        mime_type TEXT,
+        chunks INTEGER DEFAULT 0,
+        hash TEXT
+      )
+    `;
+  }
+
+  private addColumnIfMissing(
+    table: string,
+    column: string,
+    definition: string,
+  ): void {
+    const exists = this.sql
+      .exec(`PRAGMA table_info(${table})`)
+      .toArray()
+      .some((row) => row.name === column);
+    if (!exists) {
+      this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * SQLite can't alter a CHECK constraint, so pods created before a node type
+   * existed get their nodes table rebuilt (ids are kept so FTS stays valid).
+   * Runs inside the migration.
+   */
+  private upgradeNodeTypes(): void {
+    const table = this.sql
+      .exec(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'nodes'`,
+      )
+      .toArray()[0] as { sql: string } | undefined;
+
+    if (!table || NODE_TYPES.every((type) => table.sql.includes(`'${type}'`))) {
+      return;
+    }
+
+    const columns = this.sql
+      .exec(`PRAGMA table_info(nodes)`)
+      .toArray()
+      .map((column) => column.name as string)
+      .join(", ");
+
+    this.sql.exec(`DROP TABLE IF EXISTS nodes_upgrade`);
+    this.sql.exec(this.nodesTableSQL("nodes_upgrade"));
+    this.sql.exec(
+      `INSERT INTO nodes_upgrade (${columns}) SELECT ${columns} FROM nodes`,
+    );
+    this.sql.exec(`DROP TABLE nodes`);
+    this.sql.exec(`ALTER TABLE nodes_upgrade RENAME TO nodes`);
+  }
+
+  // Keep blobs.refs equal to the number of rows in table pointing at a blob
+  private createBlobRefTriggers(table: string): void {
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_blob_ai AFTER INSERT ON ${table}
+      WHEN new.hash IS NOT NULL BEGIN
+        UPDATE blobs SET refs = refs + 1 WHERE hash = new.hash;
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_blob_ad AFTER DELETE ON ${table}
+      WHEN old.hash IS NOT NULL BEGIN
+        UPDATE blobs SET refs = refs - 1 WHERE hash = old.hash;
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_blob_au AFTER UPDATE OF hash ON ${table}
+      WHEN old.hash IS NOT new.hash BEGIN
+        UPDATE blobs SET refs = refs - 1 WHERE hash = old.hash;
+        UPDATE blobs SET refs = refs + 1 WHERE hash = new.hash;
+      END
+    `);
+  }
+
+  /**
+   * Move text kept inline or in per-path chunk tables by pods created
+   * before blobs existed into the blob store. Runs inside the migration.
+   */
+  private upgradeContentToBlobs(): void {
+    const legacyTables = this.sql
+      .exec(
+        `SELECT name FROM sqlite_master
+         WHERE type = 'table' AND name IN ('node_chunks', 'trash_chunks')`,
+      )
+      .toArray()
+      .map((row) => row.name as string);
+
+    for (const table of ["nodes", "trash"]) {
+      const chunkTable = table === "nodes" ? "node_chunks" : "trash_chunks";
+      const chunkFilter = table === "nodes" ? "" : "AND trash_id = ?";
+      const rows = this.sql
+        .exec(`SELECT * FROM ${table} WHERE type = 'file' AND hash IS NULL`)
+        .toArray() as {
+        id: number;
+        path: string;
+        trash_id?: string;
+        content: string | null;
+        chunks: number;
+      }[];
+
+      for (const row of rows) {
+        let content = row.content || "";
+        if (row.chunks > 0 && legacyTables.includes(chunkTable)) {
+          content = this.sql
+            .exec(
+              `SELECT content FROM ${chunkTable}
+               WHERE path = ? ${chunkFilter} ORDER BY idx`,
+              row.path,
+              ...(row.trash_id ? [row.trash_id] : []),
+            )
+            .toArray()
+            .map((chunk) => chunk.content as string)
+            .join("");
+        }
+        this.sql.exec(
+          `UPDATE ${table} SET hash = ?, content = NULL WHERE id = ?`,
+          this.storeBlobInChunks(content),
+          row.id,
+        );
+      }
+    }
+
+    const revisions = this.sql
+      .exec(`SELECT id, content FROM revisions WHERE hash IS NULL`)
+      .toArray() as { id: number; content: string | null }[];
+    for (const revision of revisions) {
+      this.sql.exec(
+        `UPDATE revisions SET hash = ?, content = NULL WHERE id = ?`,
+        this.storeBlobInChunks(revision.content || ""),
+        revision.id,
+      );
+    }
+
+    for (const table of legacyTables) {
+      this.sql.exec(`DROP TABLE ${table}`);
+    }
+  }
+
+  // Store a blob as migration 1 did, with large content in blob_chunks.
+  // The shared chunk tables only exist from migration 8, which moves them.
+  private storeBlobInChunks(content: string): string {
+    const hash = sha256Hex(content);
+    if (this.blobExists(hash)) return hash;
+
+    const chunks = content.length > CHUNK_SIZE ? splitChunks(content) : [];
+    this.sql.exec(
+      `INSERT INTO blobs (hash, size, chunks, content) VALUES (?, ?, ?, ?)`,
+      hash,
+      utf8ByteLength(content),
+      chunks.length,
+      chunks.length > 0 ? null : content,
+    );
+    chunks.forEach((chunk, idx) => {
+      this.sql.exec(
+        `INSERT INTO blob_chunks (hash, idx, bytes, content) VALUES (?, ?, ?, ?)`,
+        hash,
+        idx,
+        utf8ByteLength(chunk),
+        chunk,
+      );
+    });
+    return hash;
+  }
+
+  async fetch(request: Request) {
+    if (request.method === "OPTIONS") {
+      return addCorsHeaders(new Response(null, { status: 200 }));
+    }
+
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const username = request.headers.get("x-username") || "";
+    const clientId = request.headers.get("x-client-id") || null;
 
     try {
       // Handle API endpoints
@@ -202,15 +1617,35 @@ export class TextDO extends DurableObject {
         );
       }
 
+      const nodePath = pathFromURL(path);
+
+      // Snapshots can be browsed but never written to
+      if (url.searchParams.has("snapshot") && request.method !== "GET") {
+        return addCorsHeaders(
+          new Response(JSON.stringify({ error: "Snapshots are read-only" }), {
+            status: 405,
+            headers: { "Content-Type": "application/json", Allow: "GET" },
+          }),
+        );
+      }
+
       // Handle file deletion
       if (request.method === "DELETE") {
         const fullPath =
-          path === "/" ? path : this.ensureUserPrefix(path, username);
-        const deleted = this.deleteNode(fullPath);
-        if (deleted) {
+          nodePath === "/" ? nodePath : userPath(nodePath, username);
+        const locked = this.checkLocks(request, fullPath);
+        if (locked) {
+          return addCorsHeaders(locked);
+        }
+        const preconditionFailed = this.checkPreconditions(request, fullPath);
+        if (preconditionFailed) {
+          return addCorsHeaders(preconditionFailed);
+        }
+        const trashId = this.deleteNode(fullPath);
+        if (trashId) {
           this.broadcastFileChange(username, "delete", fullPath);
           return addCorsHeaders(
-            new Response(JSON.stringify({ success: true }), {
+            new Response(JSON.stringify({ success: true, trashId }), {
               headers: { "Content-Type": "application/json" },
             }),
           );
@@ -226,48 +1661,227 @@ export class TextDO extends DurableObject {
 
       // WebSocket handling
       if (request.headers.get("Upgrade") === "websocket") {
-        return this.handleWebSocket(request, username, path);
+        return this.handleWebSocket(
+          request,
+          username,
+          nodePath,
+          clientId,
+          parseScopesHeader(request.headers.get("x-scopes")),
+        );
       }
 
       // Handle file content operations
       if (request.method === "GET") {
-        const response = await this.handleFileGet(url, username);
+        const response = await this.handleFileGet(
+          url,
+          username,
+          request.headers,
+          parseScopesHeader(request.headers.get("x-scopes")),
+        );
         return addCorsHeaders(response);
       }
 
       if (request.method === "PUT") {
-        const fullPath = this.ensureUserPrefix(path, username);
-        const content = await request.text();
-        this.saveContent(fullPath, content);
-        this.broadcastFileChange(username, "update", fullPath, content);
+        const fullPath = userPath(nodePath, username);
+        const locked = this.checkLocks(request, fullPath);
+        if (locked) {
+          return addCorsHeaders(locked);
+        }
+        const preconditionFailed = this.checkPreconditions(request, fullPath);
+        if (preconditionFailed) {
+          return addCorsHeaders(preconditionFailed);
+        }
+        let expiresAt: number | undefined;
+        try {
+          expiresAt = parseExpiry(
+            request.headers.get("X-TTL"),
+            request.headers.get("X-Expires-At"),
+          );
+        } catch (error) {
+          return addCorsHeaders(
+            new Response(JSON.stringify({ error: (error as Error).message }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }),
+          );
+        }
+        const contentType = request.headers.get("Content-Type");
+        const body = await request.arrayBuffer();
+        try {
+          // Without a content coding both headers describe the body
+          for (const name of ["Content-Digest", "Repr-Digest"]) {
+            const header = request.headers.get(name);
+            if (header) checkDigest(name, header, new Uint8Array(body));
+          }
+        } catch (error) {
+          return addCorsHeaders(
+            new Response(JSON.stringify({ error: (error as Error).message }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }),
+          );
+        }
+        if (isTextContentType(contentType)) {
+          const content = new TextDecoder().decode(body);
+          // Generic text/plain is what most clients send by default, so it
+          // doesn't override the type guessed from the extension
+          const mimeType = parseMimeType(contentType);
+          this.saveContent(
+            fullPath,
+            content,
+            clientId,
+            mimeType && mimeType !== "text/plain" ? mimeType : null,
+            expiresAt,
+          );
+          this.broadcastFileChange(username, "update", fullPath, content);
+        } else {
+          await this.saveBinary(
+            fullPath,
+            body,
+            contentType || "application/octet-stream",
+            clientId,
+            expiresAt,
+          );
+          this.broadcastFileChange(username, "update", fullPath);
+        }
         return addCorsHeaders(
           new Response(JSON.stringify({ success: true, path: fullPath }), {
-            headers: { "Content-Type": "application/json" },
+            headers: {
+              "Content-Type": "application/json",
+              ...this.validatorHeaders(fullPath),
+            },
           }),
         );
       }
 
-      // Default API info response
-      return addCorsHeaders(
-        new Response(
-          `FS Pod Server API
-      
-Endpoints:
+      if (request.method === "PATCH") {
+        const fullPath = userPath(nodePath, username);
+        const locked = this.checkLocks(request, fullPath);
+        if (locked) {
+          return addCorsHeaders(locked);
+        }
+        const preconditionFailed = this.checkPreconditions(request, fullPath);
+        if (preconditionFailed) {
+          return addCorsHeaders(preconditionFailed);
+        }
 
-- Files: GET/PUT/DELETE /{path}
-- API: POST /api/{endpoint}
-- Search: POST /api/grep, POST /api/find
-- WebSocket: WS /{path}
-- llms: GET /llms.txt
-- admin: /studio
-- SQL api: /query
-      `,
-          {
-            headers: { "Content-Type": "text/plain" },
-          },
-        ),
-      );
-    } catch (error) {
+        const format =
+          JSON_PATCH_TYPES[parseMimeType(request.headers.get("Content-Type"))];
+        if (!format) {
+          return addCorsHeaders(
+            new Response(
+              JSON.stringify({
+                error: `Content-Type must be one of: ${Object.keys(JSON_PATCH_TYPES).join(", ")}`,
+              }),
+              {
+                status: 415,
+                headers: {
+                  "Content-Type": "application/json",
+                  "Accept-Patch": Object.keys(JSON_PATCH_TYPES).join(", "),
+                },
+              },
+            ),
+          );
+        }
+
+        let patch: unknown;
+        try {
+          patch = await request.json();
+        } catch {
+          return addCorsHeaders(
+            new Response(JSON.stringify({ error: "Invalid JSON" }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }),
+          );
+        }
+
+        try {
+          const content = this.patchJSON(fullPath, patch, format, clientId);
+          this.broadcastFileChange(username, "update", fullPath, content);
+          return addCorsHeaders(
+            new Response(JSON.stringify({ success: true, path: fullPath }), {
+              headers: {
+                "Content-Type": "application/json",
+                ...this.validatorHeaders(fullPath),
+              },
+            }),
+          );
+        } catch (error) {
+          if (!(error instanceof JsonPatchError)) throw error;
+          return addCorsHeaders(
+            new Response(JSON.stringify({ error: error.message }), {
+              status: error.status,
+              headers: { "Content-Type": "application/json" },
+            }),
+          );
+        }
+      }
+
+      // Default API info response
+      return addCorsHeaders(
+        new Response(
+          `FS Pod Server API
+      
+Endpoints:
+
+- Files: GET/PUT/PATCH/DELETE /{path} (links are followed on GET)
+- API: POST /api/{endpoint}
+- Search: POST /api/grep, POST /api/find
+- History: POST /api/history, /api/diff, /api/restore, GET /{path}?at={timestamp}
+- Trash: POST /api/trash, /api/restore-trash, /api/purge-trash
+- Snapshots: GET/POST /api/snapshots, POST /api/restore-snapshot, /api/delete-snapshot, GET /{path}?snapshot={id}
+- Metadata: POST /api/metadata, /api/set-metadata, /api/delete-metadata
+- Tags: POST /api/tag, /api/untag, /api/tags
+- JSON indexes: POST /api/set-indexes, /api/indexes, /api/query
+- Expiry: PUT /{path} with X-TTL or X-Expires-At, POST /api/set-expiry
+- Batch: POST /api/batch
+- Changes: GET /api/changes?since={cursor}&path={prefix}&limit={n}
+- Locks: POST /api/lock, /api/unlock, then send Lock-Token (WS: ?lock={token}) with writes
+- Logs: POST /api/log-append, GET /{path}?after={seq}&limit={n}, WS /{path}?after={seq}
+- Schemas: PUT /{folder}/.schema.json to validate the JSON files below it
+- JSON: GET /{path}?pointer={json-pointer}, PATCH /{path} (json-patch+json or merge-patch+json)
+- Archives: GET /{folder}?format=zip|tar, POST /api/import?path={folder}
+- Quota: POST /api/quota, /api/set-quota
+- Diagnostics: GET /api/diagnostics
+- WebSocket: WS /{path}
+- llms: GET /llms.txt
+- admin: /studio
+- SQL api: /query
+      `,
+          {
+            headers: { "Content-Type": "text/plain" },
+          },
+        ),
+      );
+    } catch (error) {
+      if (error instanceof QuotaError) {
+        return addCorsHeaders(
+          new Response(JSON.stringify({ error: error.message }), {
+            status: error.status,
+            headers: { "Content-Type": "application/json" },
+          }),
+        );
+      }
+      if (error instanceof SchemaValidationError) {
+        return addCorsHeaders(
+          new Response(
+            JSON.stringify({ error: error.message, ...errorDetails(error) }),
+            {
+              status: error.status,
+              headers: { "Content-Type": "application/json" },
+            },
+          ),
+        );
+      }
+      if (error instanceof PathError || error instanceof SchemaError) {
+        return addCorsHeaders(
+          new Response(JSON.stringify({ error: error.message }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }),
+        );
+      }
       console.error("Error in TextDO fetch:", error);
       return addCorsHeaders(
         new Response(JSON.stringify({ error: "Internal server error" }), {
@@ -299,35 +1913,248 @@ Endpoints:
     return { name, parent_path };
   }
 
-  saveContent(path: string, content: string): void {
+  /**
+   * Write a text file. Without an explicit mimeType the file keeps its
+   * current MIME type, or gets one guessed from its extension. An expiresAt
+   * is set with the content (null clears it); without one the expiry is kept.
+   */
+  saveContent(
+    path: string,
+    content: string,
+    clientId: string | null = null,
+    mimeType: string | null = null,
+    expiresAt?: number | null,
+  ): void {
     const now = Math.round(Date.now() / 1000);
 
     const existing = this.sql
-      .exec(`SELECT type FROM nodes WHERE path = ?`, path)
-      .toArray()[0] as { type: string } | undefined;
+      .exec(
+        `SELECT type, content, mime_type, size, updated_by FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          type: string;
+          content: string | null;
+          mime_type: string | null;
+          size: number;
+          updated_by: string | null;
+        }
+      | undefined;
 
     if (existing && existing.type === "folder") {
       throw new Error("Cannot save content to a folder");
     }
 
-    this.ensureParentFolders(path);
-    const { name, parent_path } = this.parsePathComponents(path);
+    const size = utf8ByteLength(content);
+    this.checkQuota(
+      clientId,
+      size,
+      existing && { ...existing, kept: existing.type === "file" },
+    );
 
-    this.sql.exec(
-      `
-      INSERT OR REPLACE INTO nodes (path, name, parent_path, type, size, content, created_at, updated_at)
-      VALUES (?, ?, ?, 'file', ?, ?, 
-        COALESCE((SELECT created_at FROM nodes WHERE path = ?), ?), 
-        ?)
-    `,
-      path,
-      name,
-      parent_path,
-      content.length,
-      content,
-      path,
-      now,
-      now,
+    const resolvedMimeType =
+      (mimeType && parseMimeType(mimeType)) ||
+      (existing?.type === "file" && existing.mime_type) ||
+      mimeTypeFromPath(path);
+    this.validateContent(path, () => content, resolvedMimeType);
+
+    this.transaction(() => {
+      this.recordRevision(path, now);
+      this.ensureParentFolders(path);
+      const { name, parent_path } = this.parsePathComponents(path);
+      const hash = this.storeBlob(content);
+
+      this.sql.exec(
+        `
+        INSERT INTO nodes (path, name, parent_path, type, size, content, created_at, updated_at, updated_by, mime_type, chunks, hash)
+        VALUES (?, ?, ?, 'file', ?, NULL, ?, ?, ?, ?,
+          (SELECT chunks FROM blobs WHERE hash = ?), ?)
+        ON CONFLICT(path) DO UPDATE SET
+          type = excluded.type, size = excluded.size, content = NULL,
+          updated_at = excluded.updated_at, updated_by = excluded.updated_by,
+          mime_type = excluded.mime_type, chunks = excluded.chunks, hash = excluded.hash,
+          digest = NULL
+      `,
+        path,
+        name,
+        parent_path,
+        size,
+        now,
+        now,
+        clientId,
+        resolvedMimeType,
+        hash,
+        hash,
+      );
+      if (expiresAt !== undefined) this.setExpiry(path, expiresAt);
+    });
+
+    if (existing && existing.type === "binary" && existing.content) {
+      this.releaseBinaryObjects([existing.content]);
+    }
+  }
+
+  // ==================== BINARY STORAGE ====================
+
+  /**
+   * Store raw bytes in the FILES bucket and point a binary node at them.
+   * Every write gets a fresh object key, so keys are immutable and can be
+   * shared between copies. An expiresAt is set as in saveContent.
+   */
+  async saveBinary(
+    path: string,
+    data: ArrayBuffer,
+    contentType: string,
+    clientId: string | null = null,
+    expiresAt?: number | null,
+  ): Promise<void> {
+    const existing = this.sql
+      .exec(
+        `SELECT type, content, size, updated_by FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          type: string;
+          content: string | null;
+          size: number;
+          updated_by: string | null;
+        }
+      | undefined;
+
+    if (existing && existing.type === "folder") {
+      throw new Error("Cannot save content to a folder");
+    }
+
+    this.checkQuota(clientId, data.byteLength, existing);
+
+    const key = this.binaryObjectKey(path);
+    await this.env.FILES.put(key, data, {
+      httpMetadata: { contentType },
+    });
+
+    try {
+      this.writeBinaryNode(
+        path,
+        key,
+        data.byteLength,
+        sha256Hex(new Uint8Array(data)),
+        contentType,
+        clientId,
+        expiresAt,
+      );
+    } catch (error) {
+      this.deleteUnreferencedObjects([key]);
+      throw error;
+    }
+  }
+
+  /**
+   * Point a binary node at an object already in the bucket. Quota is checked
+   * again because other writes may have landed during the upload.
+   */
+  private writeBinaryNode(
+    path: string,
+    key: string,
+    size: number,
+    digest: string,
+    contentType: string,
+    clientId: string | null,
+    expiresAt?: number | null,
+  ): void {
+    const existing = this.sql
+      .exec(
+        `SELECT type, content, size, updated_by FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          type: string;
+          content: string | null;
+          size: number;
+          updated_by: string | null;
+        }
+      | undefined;
+
+    if (existing && existing.type === "folder") {
+      throw new Error("Cannot save content to a folder");
+    }
+
+    const now = Math.round(Date.now() / 1000);
+    this.transaction(() => {
+      this.checkQuota(clientId, size, existing);
+      this.ensureParentFolders(path);
+      const { name, parent_path } = this.parsePathComponents(path);
+
+      this.sql.exec(
+        `
+        INSERT INTO nodes (path, name, parent_path, type, size, content, created_at, updated_at, updated_by, mime_type, chunks, hash, digest)
+        VALUES (?, ?, ?, 'binary', ?, ?, ?, ?, ?, ?, 0, NULL, ?)
+        ON CONFLICT(path) DO UPDATE SET
+          type = excluded.type, size = excluded.size, content = excluded.content,
+          updated_at = excluded.updated_at, updated_by = excluded.updated_by,
+          mime_type = excluded.mime_type, chunks = 0, hash = NULL,
+          digest = excluded.digest
+      `,
+        path,
+        name,
+        parent_path,
+        size,
+        key,
+        now,
+        now,
+        clientId,
+        parseMimeType(contentType) || "application/octet-stream",
+        digest,
+      );
+      if (expiresAt !== undefined) this.setExpiry(path, expiresAt);
+
+      if (existing && existing.type === "binary" && existing.content) {
+        this.releaseBinaryObjects([existing.content]);
+      }
+    });
+  }
+
+  // Objects are grouped per user: the first path segment is the username
+  private binaryObjectKey(path: string): string {
+    const username = path.split("/").filter((p) => p)[0];
+    return `${username}/${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Delete bucket objects that are no longer referenced by any node, trashed
+   * node or snapshot. Runs in the background once the current transaction has
+   * committed, so SQL operations can stay synchronous.
+   */
+  private releaseBinaryObjects(keys: string[]): void {
+    this.onCommit(() => this.deleteUnreferencedObjects(keys));
+  }
+
+  private deleteUnreferencedObjects(keys: string[]): void {
+    const unreferenced = keys.filter(
+      (key) =>
+        this.sql
+          .exec(
+            `SELECT id FROM nodes WHERE type = 'binary' AND content = ?
+             UNION ALL
+             SELECT id FROM trash WHERE type = 'binary' AND content = ?
+             UNION ALL
+             SELECT 1 FROM snapshot_nodes WHERE type = 'binary' AND content = ?
+             LIMIT 1`,
+            key,
+            key,
+            key,
+          )
+          .toArray().length === 0,
+    );
+
+    if (unreferenced.length === 0) return;
+
+    this.state.waitUntil(
+      this.env.FILES.delete(unreferenced).catch((error) => {
+        console.error("Failed to delete binary objects:", error);
+      }),
     );
   }
 
@@ -360,14 +2187,19 @@ Endpoints:
     }
   }
 
-  createFile(path: string, content: string = ""): void {
+  createFile(
+    path: string,
+    content: string = "",
+    clientId: string | null = null,
+    mimeType: string | null = null,
+  ): void {
     const existing = this.sql
       .exec(`SELECT id FROM nodes WHERE path = ?`, path)
       .toArray()[0];
     if (existing) {
       throw new Error("File already exists");
     }
-    this.saveContent(path, content);
+    this.saveContent(path, content, clientId, mimeType);
   }
 
   createFolder(path: string): void {
@@ -392,110 +2224,320 @@ Endpoints:
     );
   }
 
-  copyNode(sourcePath: string, targetPath: string): void {
-    const sourceNode = this.sql
-      .exec(`SELECT * FROM nodes WHERE path = ?`, sourcePath)
-      .toArray()[0] as FileNode;
-
-    if (!sourceNode) {
-      throw new Error("Source node not found");
+  /**
+   * Copy a node and its whole subtree with a few set-based statements.
+   * Copies share their content blobs, so no text is duplicated.
+   * Returns the trash id of a target replaced in "overwrite" mode.
+   */
+  copyNode(
+    sourcePath: string,
+    targetPath: string,
+    mode: ConflictMode = "error",
+    clientId: string | null = null,
+  ): string | null {
+    if (targetPath === sourcePath || targetPath.startsWith(sourcePath + "/")) {
+      throw new Error("Cannot copy a node into itself");
     }
 
-    if (sourceNode.type === "file") {
-      this.createFile(targetPath, sourceNode.content || "");
-    } else {
-      this.createFolder(targetPath);
-      const children = this.sql
-        .exec(`SELECT * FROM nodes WHERE path LIKE ? || '/%'`, sourcePath)
-        .toArray() as FileNode[];
-      for (const child of children) {
-        const relativePath = child.path.slice(sourcePath.length);
-        const newChildPath = targetPath + relativePath;
-        this.copyNode(child.path, newChildPath);
-      }
-    }
-  }
+    return this.transaction(() => {
+      const trashId = this.prepareTarget(sourcePath, targetPath, mode);
+      const now = Math.round(Date.now() / 1000);
+      const mapped = `? || substr(path, length(?) + 1)`;
+      const { name, parent_path } = this.parsePathComponents(targetPath);
 
-  moveNode(sourcePath: string, targetPath: string): void {
-    const sourceNode = this.sql
-      .exec(`SELECT * FROM nodes WHERE path = ?`, sourcePath)
-      .toArray()[0] as FileNode;
+      const { size } = this.sql
+        .exec(
+          `SELECT COALESCE(SUM(size), 0) as size FROM nodes WHERE ${subtreeSQL()}`,
+          sourcePath,
+          sourcePath,
+          sourcePath,
+        )
+        .one() as { size: number };
+      this.checkQuota(clientId, size);
 
-    if (!sourceNode) {
-      throw new Error("Source node not found");
-    }
+      // Folders that already exist in the target are kept when merging
+      this.sql.exec(
+        `
+        INSERT INTO nodes (path, name, parent_path, type, size, created_at, updated_at, content, updated_by, mime_type, chunks, hash, digest)
+        SELECT ${mapped},
+          CASE WHEN path = ? THEN ? ELSE name END,
+          CASE WHEN path = ? THEN ? ELSE ? || substr(parent_path, length(?) + 1) END,
+          type, size, ?, ?, content, ?, mime_type, chunks, hash, digest
+        FROM nodes
+        WHERE ${subtreeSQL()}
+        AND NOT EXISTS (
+          SELECT 1 FROM nodes t WHERE t.path = ? || substr(nodes.path, length(?) + 1)
+        )
+      `,
+        targetPath,
+        sourcePath,
+        sourcePath,
+        name,
+        sourcePath,
+        parent_path,
+        targetPath,
+        sourcePath,
+        now,
+        now,
+        clientId,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+        targetPath,
+        sourcePath,
+      );
 
-    const existing = this.sql
-      .exec(`SELECT id FROM nodes WHERE path = ?`, targetPath)
-      .toArray()[0];
-    if (existing) {
-      throw new Error("Target path already exists");
-    }
+      this.sql.exec(
+        `
+        INSERT OR REPLACE INTO node_metadata (path, key, value)
+        SELECT ${mapped}, key, value FROM node_metadata WHERE ${subtreeSQL()}
+      `,
+        targetPath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+      );
+      this.sql.exec(
+        `
+        INSERT OR IGNORE INTO node_tags (path, tag)
+        SELECT ${mapped}, tag FROM node_tags WHERE ${subtreeSQL()}
+      `,
+        targetPath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+      );
 
-    const { name, parent_path } = this.parsePathComponents(targetPath);
+      this.checkLinks(targetPath);
+      this.validateSubtree(targetPath);
+      return trashId;
+    });
+  }
 
-    this.sql.exec(
-      `
-      UPDATE nodes SET path = ?, name = ?, parent_path = ?, updated_at = strftime('%s', 'now') WHERE path = ?
-    `,
-      targetPath,
-      name,
-      parent_path,
-      sourcePath,
-    );
+  /**
+   * Move a node and its whole subtree by rewriting paths in place.
+   * Returns the trash id of a target replaced in "overwrite" mode.
+   */
+  moveNode(
+    sourcePath: string,
+    targetPath: string,
+    mode: ConflictMode = "error",
+  ): string | null {
+    if (targetPath === sourcePath || targetPath.startsWith(sourcePath + "/")) {
+      throw new Error("Cannot move a node into itself");
+    }
 
-    if (sourceNode.type === "folder") {
-      const children = this.sql
-        .exec(`SELECT path FROM nodes WHERE path LIKE ? || '/%'`, sourcePath)
-        .toArray() as { path: string }[];
+    return this.transaction(() => {
+      const trashId = this.prepareTarget(sourcePath, targetPath, mode);
+      const mapped = `? || substr(path, length(?) + 1)`;
+      const { name, parent_path } = this.parsePathComponents(targetPath);
+
+      // Source folders merged into existing target folders are dropped;
+      // their children, metadata and tags still move below
+      this.sql.exec(
+        `
+        DELETE FROM nodes
+        WHERE type = 'folder' AND ${subtreeSQL()}
+        AND EXISTS (
+          SELECT 1 FROM nodes t WHERE t.path = ? || substr(nodes.path, length(?) + 1)
+        )
+      `,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+        targetPath,
+        sourcePath,
+      );
 
-      for (const child of children) {
-        const relativePath = child.path.slice(sourcePath.length);
-        const newChildPath = targetPath + relativePath;
-        const { name: childName, parent_path: childParentPath } =
-          this.parsePathComponents(newChildPath);
+      this.sql.exec(
+        `
+        UPDATE nodes SET
+          path = ${mapped},
+          name = CASE WHEN path = ? THEN ? ELSE name END,
+          parent_path = CASE WHEN path = ? THEN ? ELSE ? || substr(parent_path, length(?) + 1) END,
+          updated_at = strftime('%s', 'now')
+        WHERE ${subtreeSQL()}
+      `,
+        targetPath,
+        sourcePath,
+        sourcePath,
+        name,
+        sourcePath,
+        parent_path,
+        targetPath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+        sourcePath,
+      );
 
+      // History, metadata and tags follow the node to its new location
+      for (const table of ["revisions", ...NODE_DATA_TABLES]) {
         this.sql.exec(
           `
-          UPDATE nodes SET path = ?, name = ?, parent_path = ?, updated_at = strftime('%s', 'now') WHERE path = ?
+          UPDATE OR REPLACE ${table} SET path = ${mapped}
+          WHERE ${subtreeSQL()}
         `,
-          newChildPath,
-          childName,
-          childParentPath,
-          child.path,
+          targetPath,
+          sourcePath,
+          sourcePath,
+          sourcePath,
+          sourcePath,
         );
       }
-    }
-  }
 
-  renameNode(oldPath: string, newName: string): void {
-    const node = this.sql
-      .exec(`SELECT * FROM nodes WHERE path = ?`, oldPath)
-      .toArray()[0] as FileNode;
+      this.checkLinks(targetPath);
+      this.validateSubtree(targetPath);
+      return trashId;
+    });
+  }
 
-    if (!node) {
-      throw new Error("Node not found");
+  /**
+   * Make room for copying or moving sourcePath to targetPath according to
+   * mode. Returns the trash id when an existing target was trashed.
+   */
+  private prepareTarget(
+    sourcePath: string,
+    targetPath: string,
+    mode: ConflictMode,
+  ): string | null {
+    if (!CONFLICT_MODES.includes(mode)) {
+      throw new Error(`mode must be one of: ${CONFLICT_MODES.join(", ")}`);
     }
 
-    const pathParts = oldPath.split("/");
-    pathParts[pathParts.length - 1] = newName;
-    const newPath = pathParts.join("/");
+    const source = this.sql
+      .exec(`SELECT id FROM nodes WHERE path = ?`, sourcePath)
+      .toArray()[0];
+    if (!source) {
+      throw new Error("Source node not found");
+    }
 
     const existing = this.sql
-      .exec(`SELECT id FROM nodes WHERE path = ?`, newPath)
+      .exec(`SELECT id FROM nodes WHERE path = ?`, targetPath)
       .toArray()[0];
+
+    let trashId: string | null = null;
     if (existing) {
-      throw new Error("A file or folder with this name already exists");
+      if (mode === "error") {
+        throw new Error("Target path already exists");
+      }
+      if (sourcePath.startsWith(targetPath + "/")) {
+        throw new Error("Cannot replace a folder containing the source");
+      }
+      if (mode === "overwrite") {
+        trashId = this.deleteNode(targetPath);
+      } else {
+        this.replaceConflicts(sourcePath, targetPath);
+      }
     }
 
-    this.moveNode(oldPath, newPath);
+    this.ensureParentFolders(targetPath);
+    return trashId;
   }
 
-  getNextAvailableName(basePath: string, extension: string = ""): string {
-    let counter = 1;
-    let testPath = basePath;
-
-    while (true) {
+  /**
+   * For a merge, remove target nodes that a source file, binary or link will
+   * replace. Replaced text files keep a revision, as with any overwrite.
+   */
+  private replaceConflicts(sourcePath: string, targetPath: string): void {
+    const conflicts = `
+      SELECT ? || substr(path, length(?) + 1) FROM nodes
+      WHERE type != 'folder' AND ${subtreeSQL()}
+    `;
+    const params = [targetPath, sourcePath, sourcePath, sourcePath, sourcePath];
+
+    const mismatch = this.sql
+      .exec(
+        `
+        SELECT t.path FROM nodes s
+        JOIN nodes t ON t.path = ? || substr(s.path, length(?) + 1)
+        WHERE ${subtreeSQL("s.path")}
+        AND (s.type = 'folder') != (t.type = 'folder')
+        LIMIT 1
+      `,
+        ...params,
+      )
+      .toArray()[0] as { path: string } | undefined;
+    if (mismatch) {
+      throw new Error(`Cannot merge a folder and a file at ${mismatch.path}`);
+    }
+
+    const now = Math.round(Date.now() / 1000);
+    this.sql.exec(
+      `
+      INSERT INTO revisions (path, hash, size, created_at, replaced_at, client_id)
+      SELECT path, hash, size, updated_at, ?, updated_by FROM nodes
+      WHERE type = 'file' AND path IN (${conflicts})
+    `,
+      now,
+      ...params,
+    );
+    this.sql.exec(
+      `
+      DELETE FROM revisions WHERE id IN (
+        SELECT id FROM (
+          SELECT id, ROW_NUMBER() OVER (PARTITION BY path ORDER BY id DESC) as rank
+          FROM revisions WHERE path IN (${conflicts})
+        ) WHERE rank > ?
+      )
+    `,
+      ...params,
+      MAX_REVISIONS_PER_FILE,
+    );
+
+    const binaryKeys = this.sql
+      .exec(
+        `SELECT content FROM nodes
+         WHERE type = 'binary' AND content IS NOT NULL AND path IN (${conflicts})`,
+        ...params,
+      )
+      .toArray()
+      .map((row) => row.content as string);
+
+    for (const table of ["nodes", ...NODE_DATA_TABLES]) {
+      this.sql.exec(
+        `DELETE FROM ${table} WHERE path IN (${conflicts})`,
+        ...params,
+      );
+    }
+
+    if (binaryKeys.length > 0) {
+      this.releaseBinaryObjects(binaryKeys);
+    }
+  }
+
+  renameNode(oldPath: string, newName: string): void {
+    validateName(newName);
+
+    const node = this.sql
+      .exec(`SELECT * FROM nodes WHERE path = ?`, oldPath)
+      .toArray()[0] as FileNode;
+
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    const pathParts = oldPath.split("/");
+    pathParts[pathParts.length - 1] = newName;
+    const newPath = pathParts.join("/");
+
+    const existing = this.sql
+      .exec(`SELECT id FROM nodes WHERE path = ?`, newPath)
+      .toArray()[0];
+    if (existing) {
+      throw new Error("A file or folder with this name already exists");
+    }
+
+    this.moveNode(oldPath, newPath);
+  }
+
+  getNextAvailableName(basePath: string, extension: string = ""): string {
+    let counter = 1;
+    let testPath = basePath;
+
+    while (true) {
       const existing = this.sql
         .exec(`SELECT id FROM nodes WHERE path = ?`, testPath)
         .toArray()[0];
@@ -514,772 +2556,4885 @@ Endpoints:
     }
   }
 
-  deleteNode(path: string): boolean {
-    const result = this.sql.exec(
-      `
-      DELETE FROM nodes 
-      WHERE path = ? OR path LIKE ? || '/%'
-    `,
-      path,
-      path,
+  /**
+   * Move a node and its descendants to the trash.
+   * Returns the trash id, or null if nothing was found at the path.
+   */
+  deleteNode(path: string): string | null {
+    const trashId = crypto.randomUUID();
+    const now = Math.round(Date.now() / 1000);
+    const columns = NODE_COLUMNS.join(", ");
+
+    const moved = this.transaction(() => {
+      const result = this.sql.exec(
+        `
+        INSERT INTO trash (trash_id, root_path, deleted_at, ${columns}, metadata, tags)
+        SELECT ?, ?, ?, ${columns},
+          (SELECT json_group_object(m.key, m.value) FROM node_metadata m
+           WHERE m.path = nodes.path),
+          (SELECT json_group_array(t.tag) FROM node_tags t
+           WHERE t.path = nodes.path)
+        FROM nodes
+        WHERE ${subtreeSQL()}
+      `,
+        trashId,
+        path,
+        now,
+        path,
+        path,
+        path,
+      );
+
+      for (const table of ["nodes", ...NODE_DATA_TABLES]) {
+        this.sql.exec(
+          `
+          DELETE FROM ${table} 
+          WHERE ${subtreeSQL()}
+        `,
+          path,
+          path,
+          path,
+        );
+      }
+
+      return result.rowsWritten;
+    });
+
+    if (moved === 0) return null;
+
+    this.scheduleAlarm();
+    return trashId;
+  }
+
+  // ==================== TRASH ====================
+
+  private trashRetentionSeconds(): number {
+    const days = Number(this.env.TRASH_RETENTION_DAYS);
+    return (
+      (Number.isFinite(days) && days > 0
+        ? days
+        : DEFAULT_TRASH_RETENTION_DAYS) * 86400
     );
-    return result.rowsWritten > 0;
   }
 
-  // ==================== GREP IMPLEMENTATION ====================
+  /**
+   * List deletions in the trash, newest first
+   */
+  listTrash(): TrashEntry[] {
+    const retention = this.trashRetentionSeconds();
+    return this.sql
+      .exec(
+        `
+        SELECT trash_id, root_path as path, deleted_at,
+          MAX(CASE WHEN path = root_path THEN type END) as type,
+          COALESCE(SUM(size), 0) as size,
+          COUNT(*) as item_count,
+          deleted_at + ? as expires_at
+        FROM trash
+        GROUP BY trash_id
+        ORDER BY deleted_at DESC
+      `,
+        retention,
+      )
+      .toArray() as unknown as TrashEntry[];
+  }
 
   /**
-   * Search for pattern in file contents
-   * Supports:
-   * - Simple string matching (case-insensitive by default)
-   * - Regex patterns (when regex=true)
-   * - Path filtering
-   * - Line number and context
+   * Put a deletion back at its original path, or under targetPath instead.
+   * Returns the restored root path.
    */
-  grep(
-    username: string,
-    pattern: string,
-    options: {
-      path?: string; // Starting path (default: user root)
-      regex?: boolean; // Treat pattern as regex
-      caseSensitive?: boolean; // Case-sensitive search
-      maxResults?: number; // Limit results (default: 1000)
-      contextLines?: number; // Lines of context before/after match
-      filePattern?: string; // Filter by filename pattern (glob-like)
-    } = {},
-  ): GrepResult[] {
-    const {
-      path = `/${username}`,
-      regex = false,
-      caseSensitive = false,
-      maxResults = 1000,
-      contextLines = 0,
-      filePattern,
-    } = options;
+  restoreTrash(
+    trashId: string,
+    targetPath?: string,
+    lockToken: string | null = null,
+  ): string {
+    const entry = this.sql
+      .exec(`SELECT root_path FROM trash WHERE trash_id = ? LIMIT 1`, trashId)
+      .toArray()[0] as { root_path: string } | undefined;
 
-    const results: GrepResult[] = [];
-    const searchPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
+    if (!entry) {
+      throw new Error("Trash entry not found");
+    }
 
-    // Build query to get files
-    let query = `
-      SELECT path, content FROM nodes 
-      WHERE type = 'file' 
-      AND content IS NOT NULL
-      AND (path = ? OR path LIKE ? || '/%')
-    `;
-    const params: any[] = [searchPath, searchPath];
+    const rootPath = targetPath || entry.root_path;
+    const columns = NODE_COLUMNS.filter(
+      (column) => column !== "path" && column !== "parent_path",
+    ).join(", ");
 
-    // Add filename pattern filter
-    if (filePattern) {
-      // Convert glob to SQL LIKE pattern
-      const sqlPattern = filePattern.replace(/\*/g, "%").replace(/\?/g, "_");
-      query += ` AND name LIKE ?`;
-      params.push(sqlPattern);
-    }
+    this.transaction(() => {
+      this.assertUnlocked(lockToken, rootPath);
+      const conflict = this.sql
+        .exec(
+          `
+          SELECT n.path FROM nodes n
+          JOIN trash t ON n.path = ? || substr(t.path, length(t.root_path) + 1)
+          WHERE t.trash_id = ?
+          LIMIT 1
+        `,
+          rootPath,
+          trashId,
+        )
+        .toArray()[0];
+      if (conflict) {
+        throw new Error(`Target path already exists: ${conflict.path}`);
+      }
 
-    const files = this.sql.exec(query, ...params).toArray() as {
-      path: string;
-      content: string;
-    }[];
+      this.ensureParentFolders(rootPath);
+      const { name, parent_path } = this.parsePathComponents(rootPath);
 
-    // Create regex or string matcher
-    let matcher: (text: string) => { index: number; match: string }[];
+      this.sql.exec(
+        `
+        INSERT INTO nodes (path, parent_path, ${columns})
+        SELECT ? || substr(path, length(root_path) + 1),
+          CASE WHEN path = root_path THEN ?
+            ELSE ? || substr(parent_path, length(root_path) + 1) END,
+          ${columns}
+        FROM trash WHERE trash_id = ?
+        ORDER BY length(path)
+      `,
+        rootPath,
+        parent_path,
+        rootPath,
+        trashId,
+      );
+      this.sql.exec(`UPDATE nodes SET name = ? WHERE path = ?`, name, rootPath);
+      this.sql.exec(
+        `
+        INSERT OR REPLACE INTO node_metadata (path, key, value)
+        SELECT ? || substr(t.path, length(t.root_path) + 1), m.key, m.value
+        FROM trash t, json_each(t.metadata) m
+        WHERE t.trash_id = ? AND t.metadata IS NOT NULL
+      `,
+        rootPath,
+        trashId,
+      );
+      this.sql.exec(
+        `
+        INSERT OR IGNORE INTO node_tags (path, tag)
+        SELECT ? || substr(t.path, length(t.root_path) + 1), j.value
+        FROM trash t, json_each(t.tags) j
+        WHERE t.trash_id = ? AND t.tags IS NOT NULL
+      `,
+        rootPath,
+        trashId,
+      );
+      this.sql.exec(`DELETE FROM trash WHERE trash_id = ?`, trashId);
+      this.validateSubtree(rootPath);
+    });
 
-    if (regex) {
-      try {
-        const flags = caseSensitive ? "g" : "gi";
-        const re = new RegExp(pattern, flags);
-        matcher = (text: string) => {
-          const matches: { index: number; match: string }[] = [];
-          let m;
-          while ((m = re.exec(text)) !== null) {
-            matches.push({ index: m.index, match: m[0] });
-            if (matches.length >= maxResults) break;
-          }
-          return matches;
-        };
-      } catch (e) {
-        throw new Error(`Invalid regex pattern: ${pattern}`);
-      }
-    } else {
-      const searchTerm = caseSensitive ? pattern : pattern.toLowerCase();
-      matcher = (text: string) => {
-        const searchText = caseSensitive ? text : text.toLowerCase();
-        const matches: { index: number; match: string }[] = [];
-        let pos = 0;
-        while ((pos = searchText.indexOf(searchTerm, pos)) !== -1) {
-          matches.push({ index: pos, match: text.substr(pos, pattern.length) });
-          pos += 1;
-          if (matches.length >= maxResults) break;
-        }
-        return matches;
-      };
-    }
+    return rootPath;
+  }
 
-    // Search each file
-    for (const file of files) {
-      if (!file.content) continue;
+  /**
+   * Permanently remove a deletion from the trash, or the whole trash if no
+   * trash id is given. Revisions of purged paths that no longer exist go
+   * too, so their content stops counting towards the quota. Returns the
+   * number of purged nodes.
+   */
+  purgeTrash(trashId?: string): number {
+    const condition = trashId ? `trash_id = ?` : `1 = 1`;
+    const params = trashId ? [trashId] : [];
+
+    return this.transaction(() => {
+      this.sql.exec(
+        `DELETE FROM revisions
+         WHERE path IN (SELECT path FROM trash WHERE ${condition})
+           AND path NOT IN (SELECT path FROM nodes)
+           AND path NOT IN (SELECT path FROM trash WHERE NOT (${condition}))`,
+        ...params,
+        ...params,
+      );
 
-      const matches = matcher(file.content);
-      if (matches.length === 0) continue;
+      const binaryKeys = this.sql
+        .exec(
+          `SELECT content FROM trash
+           WHERE ${condition} AND type = 'binary' AND content IS NOT NULL`,
+          ...params,
+        )
+        .toArray()
+        .map((row) => row.content as string);
 
-      const lines = file.content.split("\n");
+      const result = this.sql.exec(
+        `DELETE FROM trash WHERE ${condition}`,
+        ...params,
+      );
 
-      for (const match of matches) {
-        // Find line number and column
-        let charCount = 0;
-        let lineNum = 0;
+      if (binaryKeys.length > 0) {
+        this.releaseBinaryObjects(binaryKeys);
+      }
+      return result.rowsWritten;
+    });
+  }
 
-        for (let i = 0; i < lines.length; i++) {
-          if (charCount + lines[i].length >= match.index) {
-            lineNum = i + 1;
-            break;
-          }
-          charCount += lines[i].length + 1; // +1 for newline
-        }
+  /**
+   * Point the Durable Object alarm at the next moment something is due
+   */
+  private scheduleAlarm(): void {
+    const next = this.sql
+      .exec(
+        `SELECT (SELECT MIN(deleted_at) FROM trash) as deleted_at,
+           (SELECT MIN(expires_at) FROM nodes WHERE expires_at IS NOT NULL) as expires_at`,
+      )
+      .toArray()[0] as { deleted_at: number | null; expires_at: number | null };
 
-        const column = match.index - charCount + 1;
+    const due = [
+      next.deleted_at === null
+        ? null
+        : next.deleted_at + this.trashRetentionSeconds(),
+      next.expires_at,
+    ].filter((time): time is number => time !== null);
 
-        // Get context lines
-        let content = lines[lineNum - 1];
-        if (contextLines > 0) {
-          const startLine = Math.max(0, lineNum - 1 - contextLines);
-          const endLine = Math.min(lines.length, lineNum + contextLines);
-          content = lines.slice(startLine, endLine).join("\n");
-        }
+    if (due.length === 0) {
+      this.state.storage.deleteAlarm();
+      return;
+    }
 
-        results.push({
-          path: file.path,
-          line: lineNum,
-          column,
-          content,
-          match: match.match,
-        });
+    this.state.storage.setAlarm(Math.min(...due) * 1000);
+  }
 
-        if (results.length >= maxResults) {
-          return results;
-        }
-      }
+  async alarm(): Promise<void> {
+    this.deleteExpiredNodes();
+
+    const cutoff = Math.round(Date.now() / 1000) - this.trashRetentionSeconds();
+    const expired = this.sql
+      .exec(`SELECT DISTINCT trash_id FROM trash WHERE deleted_at <= ?`, cutoff)
+      .toArray() as { trash_id: string }[];
+
+    for (const { trash_id } of expired) {
+      this.purgeTrash(trash_id);
     }
 
-    return results;
+    this.scheduleAlarm();
   }
 
+  // ==================== EXPIRY ====================
+
   /**
-   * Full-text search using FTS5 (faster for large datasets)
+   * Make a node expire at expiresAt, or never when null. Returns false if
+   * there is no node at path.
    */
-  grepFTS(
-    username: string,
-    query: string,
-    options: {
-      path?: string;
-      maxResults?: number;
-    } = {},
-  ): GrepResult[] {
-    const { path = `/${username}`, maxResults = 1000 } = options;
-    const searchPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
+  setExpiry(path: string, expiresAt: number | null): boolean {
+    const found = this.sql
+      .exec(`SELECT 1 FROM nodes WHERE path = ?`, path)
+      .toArray().length;
+    if (!found) return false;
 
-    try {
-      // Use FTS5 MATCH query
-      const ftsResults = this.sql
-        .exec(
-          `
-          SELECT n.path, n.content, 
-                 snippet(nodes_fts, 1, '>>>>', '<<<<', '...', 32) as snippet
-          FROM nodes_fts 
-          JOIN nodes n ON nodes_fts.rowid = n.id
-          WHERE nodes_fts MATCH ? 
-          AND (n.path = ? OR n.path LIKE ? || '/%')
-          LIMIT ?
-        `,
-          query,
-          searchPath,
-          searchPath,
-          maxResults,
-        )
-        .toArray() as { path: string; content: string; snippet: string }[];
-
-      return ftsResults.map((r) => {
-        // Find the actual line with the match
-        const lines = (r.content || "").split("\n");
-        const matchText = r.snippet.replace(/>>>>|<<<<|\.\.\./g, "").trim();
-        let lineNum = 1;
-        let column = 1;
-
-        for (let i = 0; i < lines.length; i++) {
-          const idx = lines[i].toLowerCase().indexOf(matchText.toLowerCase());
-          if (idx !== -1) {
-            lineNum = i + 1;
-            column = idx + 1;
-            break;
-          }
-        }
+    this.sql.exec(
+      `UPDATE nodes SET expires_at = ? WHERE path = ?`,
+      expiresAt,
+      path,
+    );
+    this.scheduleAlarm();
+    return true;
+  }
 
-        return {
-          path: r.path,
-          line: lineNum,
-          column,
-          content: r.snippet,
-          match: matchText,
-        };
+  /**
+   * Delete nodes whose expiry has passed. They skip the trash: expiring
+   * data is meant to be gone. Returns the deleted paths.
+   */
+  deleteExpiredNodes(): string[] {
+    const expired = this.sql
+      .exec(
+        `SELECT path FROM nodes WHERE expires_at <= ? ORDER BY path`,
+        Math.round(Date.now() / 1000),
+      )
+      .toArray() as { path: string }[];
+
+    const deleted: string[] = [];
+    for (const { path } of expired) {
+      // Purge just the trash entry this delete made, in the same transaction
+      const trashId = this.transaction(() => {
+        const id = this.deleteNode(path);
+        if (id) this.purgeTrash(id);
+        return id;
       });
-    } catch (e) {
-      console.error("FTS search error:", e);
-      // Fallback to regular grep
-      return this.grep(username, query, { path, maxResults });
+      // Gone already if a folder above it expired too
+      if (!trashId) continue;
+      this.broadcastFileChange("", "delete", path);
+      deleted.push(path);
     }
+    return deleted;
   }
 
-  // ==================== FIND IMPLEMENTATION ====================
+  // ==================== SNAPSHOTS ====================
 
   /**
-   * Find files and folders by name pattern
-   * Supports:
-   * - Glob patterns (*, ?)
-   * - Type filtering (file/folder)
-   * - Size filtering
-   * - Date filtering
-   * - Depth limiting
+   * Record the subtree at rootPath as it is now. Only rows are copied:
+   * content blobs and bucket objects are shared with the live nodes.
    */
-  find(
-    username: string,
-    options: {
-      path?: string; // Starting path
-      name?: string; // Name pattern (glob)
-      type?: "file" | "folder" | "all";
-      minSize?: number; // Minimum size in bytes
-      maxSize?: number; // Maximum size in bytes
-      newerThan?: number; // Unix timestamp
-      olderThan?: number; // Unix timestamp
-      maxDepth?: number; // Maximum directory depth
-      maxResults?: number; // Limit results
-    } = {},
-  ): FindResult[] {
-    const {
-      path = `/${username}`,
-      name,
-      type = "all",
-      minSize,
-      maxSize,
-      newerThan,
-      olderThan,
-      maxDepth,
-      maxResults = 1000,
-    } = options;
+  createSnapshot(
+    rootPath: string,
+    name: string,
+    clientId: string | null = null,
+  ): Snapshot {
+    if (typeof name !== "string" || name.trim() === "") {
+      throw new Error("Snapshot name must be a non-empty string");
+    }
 
-    const searchPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
+    const id = crypto.randomUUID();
+    const now = Math.round(Date.now() / 1000);
+    const columns = NODE_COLUMNS.join(", ");
+
+    this.transaction(() => {
+      this.sql.exec(
+        `INSERT INTO snapshots (id, name, root_path, created_at, client_id) VALUES (?, ?, ?, ?, ?)`,
+        id,
+        name.trim(),
+        rootPath,
+        now,
+        clientId,
+      );
+      const copied = this.sql.exec(
+        `
+        INSERT INTO snapshot_nodes (snapshot_id, ${columns}, metadata, tags)
+        SELECT ?, ${columns},
+          (SELECT json_group_object(m.key, m.value) FROM node_metadata m
+           WHERE m.path = nodes.path),
+          (SELECT json_group_array(t.tag) FROM node_tags t
+           WHERE t.path = nodes.path)
+        FROM nodes
+        WHERE ${subtreeSQL()}
+      `,
+        id,
+        rootPath,
+        rootPath,
+        rootPath,
+      );
+      if (copied.rowsWritten === 0) {
+        throw new Error("Path not found");
+      }
+    });
 
-    // Build query
-    let query = `
-      SELECT path, name, type, size, created_at, updated_at 
-      FROM nodes 
-      WHERE (path = ? OR path LIKE ? || '/%')
-    `;
-    const params: any[] = [searchPath, searchPath];
+    return this.getSnapshot(id) as Snapshot;
+  }
 
-    // Name pattern filter
-    if (name) {
-      const sqlPattern = name.replace(/\*/g, "%").replace(/\?/g, "_");
-      query += ` AND name LIKE ?`;
-      params.push(sqlPattern);
-    }
+  getSnapshot(id: string): Snapshot | null {
+    return (this.listSnapshots(id)[0] as Snapshot | undefined) ?? null;
+  }
 
-    // Type filter
-    if (type !== "all") {
-      query += ` AND type = ?`;
-      params.push(type);
-    }
+  /**
+   * List snapshots, newest first
+   */
+  listSnapshots(id?: string): Snapshot[] {
+    return this.sql
+      .exec(
+        `
+        SELECT s.id, s.name, s.root_path as path, s.created_at,
+          COUNT(n.path) as item_count,
+          COALESCE(SUM(n.size), 0) as size
+        FROM snapshots s
+        LEFT JOIN snapshot_nodes n ON n.snapshot_id = s.id
+        ${id ? "WHERE s.id = ?" : ""}
+        GROUP BY s.id
+        ORDER BY s.created_at DESC, s.rowid DESC
+      `,
+        ...(id ? [id] : []),
+      )
+      .toArray() as unknown as Snapshot[];
+  }
 
-    // Size filters
-    if (minSize !== undefined) {
-      query += ` AND size >= ?`;
-      params.push(minSize);
-    }
-    if (maxSize !== undefined) {
-      query += ` AND size <= ?`;
-      params.push(maxSize);
+  /**
+   * Put path back the way it was in a snapshot: whatever is there now goes
+   * to the trash, so a restore can be undone. Defaults to the whole
+   * snapshot. Returns the restored path and the trash id, if any.
+   */
+  restoreSnapshot(
+    snapshotId: string,
+    path?: string,
+    clientId: string | null = null,
+    lockToken: string | null = null,
+  ): { path: string; trashId: string | null } {
+    const snapshot = this.getSnapshot(snapshotId);
+    if (!snapshot) {
+      throw new Error("Snapshot not found");
     }
 
-    // Date filters
-    if (newerThan !== undefined) {
-      query += ` AND updated_at >= ?`;
-      params.push(newerThan);
-    }
-    if (olderThan !== undefined) {
-      query += ` AND updated_at <= ?`;
-      params.push(olderThan);
+    const rootPath = path ?? snapshot.path;
+    if (
+      rootPath !== snapshot.path &&
+      !rootPath.startsWith(snapshot.path + "/")
+    ) {
+      throw new Error(`Path is outside the snapshot of ${snapshot.path}`);
     }
 
-    query += ` ORDER BY path LIMIT ?`;
-    params.push(maxResults);
+    const columns = NODE_COLUMNS.join(", ");
+    const params = [snapshotId, rootPath, rootPath, rootPath];
 
-    let results = this.sql.exec(query, ...params).toArray() as FindResult[];
+    return this.transaction(() => {
+      this.assertUnlocked(lockToken, rootPath);
+      const { size, count } = this.sql
+        .exec(
+          `SELECT COALESCE(SUM(size), 0) as size, COUNT(*) as count FROM snapshot_nodes
+           WHERE snapshot_id = ? AND ${subtreeSQL()}`,
+          ...params,
+        )
+        .one() as { size: number; count: number };
+      const current = this.sql
+        .exec(`SELECT id FROM nodes WHERE path = ?`, rootPath)
+        .toArray()[0];
+      if (count === 0 && !current) {
+        throw new Error("Path not found in snapshot");
+      }
 
-    // Apply depth filter (can't easily do in SQL)
-    if (maxDepth !== undefined) {
-      const baseDepth = searchPath.split("/").filter((p) => p).length;
-      results = results.filter((r) => {
-        const depth = r.path.split("/").filter((p) => p).length - baseDepth;
-        return depth <= maxDepth;
-      });
-    }
+      const trashId = current ? this.deleteNode(rootPath) : null;
+      this.checkQuota(clientId, size);
+      if (count === 0) return { path: rootPath, trashId };
 
-    return results;
+      this.ensureParentFolders(rootPath);
+      this.sql.exec(
+        `
+        INSERT INTO nodes (${columns})
+        SELECT ${columns} FROM snapshot_nodes
+        WHERE snapshot_id = ? AND ${subtreeSQL()}
+        ORDER BY length(path)
+      `,
+        ...params,
+      );
+      this.sql.exec(
+        `
+        INSERT OR REPLACE INTO node_metadata (path, key, value)
+        SELECT s.path, m.key, m.value
+        FROM snapshot_nodes s, json_each(s.metadata) m
+        WHERE s.snapshot_id = ? AND ${subtreeSQL("s.path")}
+      `,
+        ...params,
+      );
+      this.sql.exec(
+        `
+        INSERT OR IGNORE INTO node_tags (path, tag)
+        SELECT s.path, j.value
+        FROM snapshot_nodes s, json_each(s.tags) j
+        WHERE s.snapshot_id = ? AND ${subtreeSQL("s.path")}
+      `,
+        ...params,
+      );
+
+      this.validateSubtree(rootPath);
+      return { path: rootPath, trashId };
+    });
   }
 
   /**
-   * Find files by extension
+   * Delete a snapshot. Returns false if there was no such snapshot.
    */
-  findByExtension(
-    username: string,
-    extension: string,
-    path?: string,
-  ): FindResult[] {
-    const pattern = extension.startsWith(".")
-      ? `*${extension}`
-      : `*.${extension}`;
-    return this.find(username, { path, name: pattern, type: "file" });
+  deleteSnapshot(snapshotId: string): boolean {
+    return this.transaction(() => {
+      const binaryKeys = this.sql
+        .exec(
+          `SELECT content FROM snapshot_nodes
+           WHERE snapshot_id = ? AND type = 'binary' AND content IS NOT NULL`,
+          snapshotId,
+        )
+        .toArray()
+        .map((row) => row.content as string);
+
+      this.sql.exec(
+        `DELETE FROM snapshot_nodes WHERE snapshot_id = ?`,
+        snapshotId,
+      );
+      const result = this.sql.exec(
+        `DELETE FROM snapshots WHERE id = ?`,
+        snapshotId,
+      );
+
+      if (binaryKeys.length > 0) {
+        this.releaseBinaryObjects(binaryKeys);
+      }
+      return result.rowsWritten > 0;
+    });
   }
 
   /**
-   * Find empty files or folders
+   * Read-only view of a node in a snapshot: file content, folder children,
+   * or a link's target (links are not followed inside snapshots)
    */
-  findEmpty(
-    username: string,
-    type: "file" | "folder" | "all" = "all",
-    path?: string,
-  ): FindResult[] {
-    const searchPath = path
-      ? path.startsWith(`/${username}`)
-        ? path
-        : `/${username}${path.startsWith("/") ? "" : "/"}${path}`
-      : `/${username}`;
+  async handleSnapshotGet(snapshotId: string, path: string): Promise<Response> {
+    const snapshot = this.getSnapshot(snapshotId);
+    const node = snapshot
+      ? (this.sql
+          .exec(
+            `SELECT path, type, size, created_at, updated_at, mime_type, content, hash
+             FROM snapshot_nodes WHERE snapshot_id = ? AND path = ?`,
+            snapshotId,
+            path,
+          )
+          .toArray()[0] as
+          | {
+              path: string;
+              type: NodeType;
+              size: number;
+              created_at: number;
+              updated_at: number;
+              mime_type: string | null;
+              content: string | null;
+              hash: string | null;
+            }
+          | undefined)
+      : undefined;
+
+    if (!snapshot || !node) {
+      return new Response(
+        JSON.stringify({
+          error: snapshot ? "File not found in snapshot" : "Snapshot not found",
+        }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
 
-    if (type === "file" || type === "all") {
-      // Empty files have size 0
-      const emptyFiles = this.find(username, {
+    if (node.type === "binary") {
+      const object = node.content
+        ? await this.env.FILES.get(node.content)
+        : null;
+      if (!object) {
+        return new Response(JSON.stringify({ error: "File not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const headers = new Headers();
+      object.writeHttpMetadata(headers);
+      if (!headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/octet-stream");
+      }
+      headers.set("Content-Length", String(object.size));
+      return new Response(object.body, { headers });
+    }
+
+    let body: Record<string, unknown>;
+    if (node.type === "folder") {
+      const children = this.sql
+        .exec(
+          `
+          SELECT path, name, type, size, created_at, updated_at, mime_type,
+            CASE WHEN type = 'link' THEN content END as target
+          FROM snapshot_nodes
+          WHERE snapshot_id = ? AND parent_path = ?
+          ORDER BY type DESC, name ASC
+        `,
+          snapshotId,
+          path,
+        )
+        .toArray();
+      body = { path, type: "folder", children };
+    } else if (node.type === "link") {
+      body = { path, type: "link", target: node.content };
+    } else {
+      body = {
         path,
         type: "file",
-        maxSize: 0,
-      });
+        content: this.readBlob(node.hash),
+        size: node.size,
+        mime_type: node.mime_type,
+        created_at: node.created_at,
+        updated_at: node.updated_at,
+      };
+    }
 
-      if (type === "file") return emptyFiles;
+    return new Response(JSON.stringify({ ...body, snapshot: snapshot.id }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
 
-      // Empty folders have no children
-      const allFolders = this.find(username, { path, type: "folder" });
-      const emptyFolders = allFolders.filter((folder) => {
-        const children = this.sql
-          .exec(
-            `SELECT COUNT(*) as count FROM nodes WHERE parent_path = ?`,
-            folder.path,
-          )
-          .toArray()[0] as { count: number };
-        return children.count === 0;
-      });
+  // ==================== JSON ====================
 
-      return [...emptyFiles, ...emptyFolders];
-    } else {
-      // Only folders
-      const allFolders = this.find(username, { path, type: "folder" });
-      return allFolders.filter((folder) => {
-        const children = this.sql
-          .exec(
-            `SELECT COUNT(*) as count FROM nodes WHERE parent_path = ?`,
-            folder.path,
-          )
-          .toArray()[0] as { count: number };
-        return children.count === 0;
-      });
+  private parseJSONFile(content: string, status: 400 | 409): JsonValue {
+    try {
+      return JSON.parse(content);
+    } catch {
+      throw new JsonPatchError("File is not valid JSON", status);
     }
   }
 
   /**
-   * Get file/folder statistics
+   * Apply a JSON Patch or merge patch to a JSON file and save the result,
+   * keeping its formatting. Reading, patching and saving happen without an
+   * await in between, so no other write can land in the middle.
    */
-  stat(
-    username: string,
+  patchJSON(
     path: string,
-  ): (FindResult & { content?: string }) | null {
-    const fullPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
+    patch: unknown,
+    format: "json-patch" | "merge-patch",
+    clientId: string | null = null,
+  ): string {
+    const node = this.sql
+      .exec(`SELECT type, hash FROM nodes WHERE path = ?`, path)
+      .toArray()[0] as { type: string; hash: string | null } | undefined;
+    if (!node) {
+      throw new JsonPatchError("File not found", 404);
+    }
+    if (node.type !== "file") {
+      throw new JsonPatchError("Only JSON files can be patched", 409);
+    }
 
-    const result = this.sql
-      .exec(
-        `SELECT path, name, type, size, created_at, updated_at, content 
-         FROM nodes WHERE path = ?`,
-        fullPath,
-      )
-      .toArray()[0] as (FindResult & { content?: string }) | undefined;
+    const original = this.readBlob(node.hash);
+    const document = this.parseJSONFile(original, 409);
+    const result =
+      format === "merge-patch"
+        ? applyMergePatch(document, patch as JsonValue)
+        : applyJsonPatch(document, patch);
 
-    return result || null;
+    const content = stringifyLike(original, result);
+    this.saveContent(path, content, clientId);
+    return content;
   }
 
+  // ==================== ARCHIVES ====================
+
   /**
-   * Get disk usage (du equivalent)
+   * Stream a folder and everything below it as a zip or tar archive. Links
+   * are left out; file content is read as each entry is written.
    */
-  du(
-    username: string,
-    path?: string,
-  ): {
-    path: string;
-    totalSize: number;
-    fileCount: number;
-    folderCount: number;
-  } {
-    const searchPath = path
-      ? path.startsWith(`/${username}`)
-        ? path
-        : `/${username}${path.startsWith("/") ? "" : "/"}${path}`
-      : `/${username}`;
-
-    const stats = this.sql
-      .exec(
-        `SELECT 
-          COALESCE(SUM(size), 0) as totalSize,
-          SUM(CASE WHEN type = 'file' THEN 1 ELSE 0 END) as fileCount,
-          SUM(CASE WHEN type = 'folder' THEN 1 ELSE 0 END) as folderCount
-         FROM nodes 
-         WHERE path = ? OR path LIKE ? || '/%'`,
-        searchPath,
-        searchPath,
+  handleArchiveGet(path: string, format: string): Response {
+    if (!(ARCHIVE_FORMATS as readonly string[]).includes(format)) {
+      return new Response(
+        JSON.stringify({
+          error: `format must be one of: ${ARCHIVE_FORMATS.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const folder = this.sql
+      .exec(`SELECT type FROM nodes WHERE path = ?`, path)
+      .toArray()[0] as { type: string } | undefined;
+    if (!folder) {
+      return new Response(JSON.stringify({ error: "Folder not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (folder.type !== "folder") {
+      return new Response(
+        JSON.stringify({ error: "Only folders can be exported as archives" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const rows = this.sql
+      .exec(
+        `
+        SELECT path, type, content, hash, updated_at FROM nodes
+        WHERE ${subtreeSQL()} AND path != ? AND type != 'link'
+        ORDER BY path
+      `,
+        path,
+        path,
+        path,
+        path,
       )
-      .toArray()[0] as {
-      totalSize: number;
-      fileCount: number;
-      folderCount: number;
-    };
+      .toArray() as {
+      path: string;
+      type: string;
+      content: string | null;
+      hash: string | null;
+      updated_at: number;
+    }[];
 
-    return {
-      path: searchPath,
-      ...stats,
-    };
-  }
+    const entries: ArchiveEntry[] = rows.map((row) => ({
+      path: row.path.slice(path.length + 1),
+      type: row.type === "folder" ? "folder" : "file",
+      modified: row.updated_at,
+      open: async () => {
+        if (row.type === "binary") {
+          const object = await this.env.FILES.get(row.content!);
+          if (!object) throw new Error(`Content of ${row.path} is missing`);
+          return { size: object.size, body: object.body };
+        }
+        const bytes = new TextEncoder().encode(this.readBlob(row.hash));
+        return { size: bytes.length, body: bytes };
+      },
+    }));
 
-  // ==================== APPEND OPERATION ====================
+    const name = path.split("/").pop();
+    return new Response(writeArchive(format as ArchiveFormat, entries), {
+      headers: {
+        "Content-Type": ARCHIVE_CONTENT_TYPES[format as ArchiveFormat],
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(`${name}.${format}`)}`,
+      },
+    });
+  }
 
   /**
-   * Append content to a file
+   * Full paths for archive entries unpacked under targetPath. Leading `./`
+   * and `/` are dropped; any other invalid path, like one with `..`, fails
+   * the whole import. Later entries for the same path win.
    */
-  appendContent(path: string, content: string): void {
-    const existing = this.sql
-      .exec(`SELECT content, type FROM nodes WHERE path = ?`, path)
-      .toArray()[0] as { content: string; type: string } | undefined;
-
-    if (!existing) {
-      // Create new file if doesn't exist
-      this.saveContent(path, content);
-      return;
-    }
-
-    if (existing.type === "folder") {
-      throw new Error("Cannot append content to a folder");
+  importEntries(targetPath: string, items: ArchiveItem[]): ArchiveItem[] {
+    if (items.length > MAX_IMPORT_ENTRIES) {
+      throw new Error(
+        `Archives can have at most ${MAX_IMPORT_ENTRIES} entries`,
+      );
     }
 
-    const newContent = (existing.content || "") + content;
-    const now = Math.round(Date.now() / 1000);
+    const entries = new Map<string, ArchiveItem>();
+    for (const item of items) {
+      const relative = item.path.replace(/^(\.?\/)+/, "").replace(/\/$/, "");
+      if (relative === "" || relative === ".") continue;
 
-    this.sql.exec(
-      `UPDATE nodes SET content = ?, size = ?, updated_at = ? WHERE path = ?`,
-      newContent,
-      newContent.length,
-      now,
-      path,
-    );
+      let path: string;
+      try {
+        path = normalizePath(`${targetPath}/${relative}`);
+      } catch (error) {
+        if (!(error instanceof PathError)) throw error;
+        throw new PathError(`${item.path}: ${error.message}`);
+      }
+      entries.delete(path);
+      entries.set(path, { ...item, path });
+    }
+    return [...entries.values()];
   }
 
   /**
-   * Read partial file content (head/tail)
+   * Unpack archive entries in one transaction. Existing folders are merged;
+   * mode decides what happens to existing files. Binary files are uploaded
+   * first and deleted again if the import fails.
    */
-  readPartial(
-    username: string,
-    path: string,
-    options: { head?: number; tail?: number; lines?: boolean } = {},
-  ): string {
-    const fullPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
-
-    const result = this.sql
-      .exec(
-        `SELECT content FROM nodes WHERE path = ? AND type = 'file'`,
-        fullPath,
-      )
-      .toArray()[0] as { content: string } | undefined;
-
-    if (!result || !result.content) {
-      throw new Error("File not found");
+  async importArchive(
+    targetPath: string,
+    entries: ArchiveItem[],
+    mode: ImportConflictMode = "error",
+    clientId: string | null = null,
+    lockToken: string | null = null,
+  ): Promise<{ changes: FileChange[]; skipped: string[] }> {
+    if (!IMPORT_CONFLICT_MODES.includes(mode)) {
+      throw new Error(
+        `mode must be one of: ${IMPORT_CONFLICT_MODES.join(", ")}`,
+      );
     }
 
-    const { head, tail, lines = true } = options;
-    const content = result.content;
+    const nodeType = (path: string) =>
+      (
+        this.sql
+          .exec(`SELECT type FROM nodes WHERE path = ?`, path)
+          .toArray()[0] as { type: string } | undefined
+      )?.type;
+
+    const archivedFiles = new Set(
+      entries
+        .filter((entry) => entry.type === "file")
+        .map((entry) => entry.path),
+    );
+    const checkedFolders = new Set<string>();
+    const writes: (ArchiveItem & { exists: boolean; key?: string })[] = [];
+    const skipped: string[] = [];
+
+    for (const entry of entries) {
+      // Everything between the target and the entry has to be a folder
+      for (
+        let parent = entry.path.slice(0, entry.path.lastIndexOf("/"));
+        parent.length >= targetPath.length && !checkedFolders.has(parent);
+        parent = parent.slice(0, parent.lastIndexOf("/"))
+      ) {
+        const type = nodeType(parent);
+        if ((type && type !== "folder") || archivedFiles.has(parent)) {
+          throw new Error(`${parent} is not a folder`);
+        }
+        checkedFolders.add(parent);
+      }
 
-    if (lines) {
-      const contentLines = content.split("\n");
-      if (head !== undefined) {
-        return contentLines.slice(0, head).join("\n");
+      const type = nodeType(entry.path);
+      if (entry.type === "folder") {
+        if (type && type !== "folder") {
+          throw new Error(`${entry.path} already exists and is not a folder`);
+        }
+        if (!type) writes.push({ ...entry, exists: false });
+        continue;
       }
-      if (tail !== undefined) {
-        return contentLines.slice(-tail).join("\n");
+
+      if (type === "folder") {
+        throw new Error(`${entry.path} is a folder`);
       }
-    } else {
-      // Character mode
-      if (head !== undefined) {
-        return content.slice(0, head);
+      if (type && mode === "error") {
+        throw new Error(`${entry.path} already exists`);
       }
-      if (tail !== undefined) {
-        return content.slice(-tail);
+      if (type && mode === "skip") {
+        skipped.push(entry.path);
+        continue;
       }
+      writes.push({ ...entry, exists: type !== undefined });
     }
 
-    return content;
+    const texts = new Map<string, string>();
+    const uploaded: string[] = [];
+    try {
+      for (const write of writes) {
+        if (write.type !== "file") continue;
+        const text = decodeImportedText(write.path, write.data);
+        if (text !== null) {
+          texts.set(write.path, text);
+          continue;
+        }
+
+        const mimeType = mimeTypeFromPath(write.path);
+        write.key = this.binaryObjectKey(write.path);
+        await this.env.FILES.put(write.key, write.data, {
+          httpMetadata: {
+            contentType: isTextContentType(mimeType)
+              ? "application/octet-stream"
+              : mimeType,
+          },
+        });
+        uploaded.push(write.key);
+      }
+
+      const changes: FileChange[] = [];
+      this.transaction(() => {
+        this.assertUnlocked(lockToken, ...writes.map((write) => write.path));
+        for (const write of writes) {
+          if (write.type === "folder") {
+            // Files earlier in the archive may have created it already
+            if (!nodeType(write.path)) this.createFolder(write.path);
+          } else if (write.key) {
+            this.writeBinaryNode(
+              write.path,
+              write.key,
+              write.data.length,
+              sha256Hex(write.data),
+              mimeTypeFromPath(write.path),
+              clientId,
+            );
+          } else {
+            this.saveContent(write.path, texts.get(write.path)!, clientId);
+          }
+          changes.push({
+            action: write.exists ? "update" : "create",
+            path: write.path,
+          });
+        }
+      });
+      return { changes, skipped };
+    } catch (error) {
+      this.deleteUnreferencedObjects(uploaded);
+      throw error;
+    }
   }
 
+  // ==================== GREP IMPLEMENTATION ====================
+
   /**
-   * Word count (wc equivalent)
+   * Search for pattern in file contents
+   * Supports:
+   * - Simple string matching (case-insensitive by default)
+   * - Regex patterns (when regex=true)
+   * - Path filtering
+   * - Line number and context
    */
-  wc(
+  grep(
     username: string,
-    path: string,
-  ): { lines: number; words: number; chars: number; bytes: number } {
-    const fullPath = path.startsWith(`/${username}`)
-      ? path
-      : `/${username}${path.startsWith("/") ? "" : "/"}${path}`;
-
-    const result = this.sql
-      .exec(
-        `SELECT content, size FROM nodes WHERE path = ? AND type = 'file'`,
-        fullPath,
-      )
-      .toArray()[0] as { content: string; size: number } | undefined;
+    pattern: string,
+    options: {
+      path?: string; // Starting path (default: user root)
+      regex?: boolean; // Treat pattern as regex
+      caseSensitive?: boolean; // Case-sensitive search
+      maxResults?: number; // Limit results (default: 1000)
+      contextLines?: number; // Lines of context before/after match
+      filePattern?: string; // Filter by filename pattern (glob-like)
+      tags?: string[]; // Only files having all of these tags
+      scopes?: string[] | null; // Skip link targets outside these scopes
+      chunked?: boolean; // Only files stored in chunks
+    } = {},
+  ): GrepResult[] {
+    const {
+      path = `/${username}`,
+      regex = false,
+      caseSensitive = false,
+      maxResults = 1000,
+      contextLines = 0,
+      filePattern,
+      tags = [],
+      scopes = null,
+      chunked = false,
+    } = options;
 
-    if (!result) {
-      throw new Error("File not found");
-    }
+    const results: GrepResult[] = [];
+    const searchPath = userPath(path, username);
+
+    const files: { path: string; content: string }[] = [];
+    for (const root of this.searchRoots(username, searchPath, scopes)) {
+      // Build query to get files
+      let query = `
+        SELECT path, hash FROM nodes 
+        WHERE type = 'file' 
+        AND hash IS NOT NULL
+        AND ${subtreeSQL()}
+        ${chunked ? "AND hash IN (SELECT hash FROM blobs WHERE chunks > 0)" : ""}
+      `;
+      const params: any[] = [root.target, root.target, root.target];
+
+      // Add filename pattern filter
+      if (filePattern) {
+        // Convert glob to SQL LIKE pattern
+        const sqlPattern = filePattern.replace(/\*/g, "%").replace(/\?/g, "_");
+        query += ` AND name LIKE ?`;
+        params.push(sqlPattern);
+      }
 
-    const content = result.content || "";
-    const lines = content.split("\n").length;
-    const words = content.split(/\s+/).filter((w) => w.length > 0).length;
-    const chars = content.length;
+      if (tags.length > 0) {
+        query += this.tagFilterSQL("path", tags);
+        params.push(...tags, tags.length);
+      }
 
-    return {
-      lines,
-      words,
-      chars,
-      bytes: result.size,
-    };
-  }
+      const rows = this.sql.exec(query, ...params).toArray() as {
+        path: string;
+        hash: string;
+      }[];
+      for (const row of rows) {
+        files.push({
+          path: root.path + row.path.slice(root.target.length),
+          content: this.readBlob(row.hash),
+        });
+      }
+    }
 
-  getVisibleNodes(expandedPaths: string[], username: string): FileNode[] {
-    let visibleCondition = `parent_path IS NULL OR parent_path = '/${username}'`;
-    let params = [`/${username}/%`, `/${username}`];
+    // Create regex or string matcher
+    let matcher: (text: string) => { index: number; match: string }[];
 
-    if (expandedPaths.length > 0) {
-      const expandedPlaceholders = expandedPaths.map(() => "?").join(",");
-      visibleCondition += ` OR parent_path IN (${expandedPlaceholders})`;
-      params.push(...expandedPaths);
+    if (regex) {
+      try {
+        const flags = caseSensitive ? "g" : "gi";
+        const re = new RegExp(pattern, flags);
+        matcher = (text: string) => {
+          const matches: { index: number; match: string }[] = [];
+          let m;
+          while ((m = re.exec(text)) !== null) {
+            matches.push({ index: m.index, match: m[0] });
+            if (matches.length >= maxResults) break;
+          }
+          return matches;
+        };
+      } catch (e) {
+        throw new Error(`Invalid regex pattern: ${pattern}`);
+      }
+    } else {
+      const searchTerm = caseSensitive ? pattern : pattern.toLowerCase();
+      matcher = (text: string) => {
+        const searchText = caseSensitive ? text : text.toLowerCase();
+        const matches: { index: number; match: string }[] = [];
+        let pos = 0;
+        while ((pos = searchText.indexOf(searchTerm, pos)) !== -1) {
+          matches.push({ index: pos, match: text.substr(pos, pattern.length) });
+          pos += 1;
+          if (matches.length >= maxResults) break;
+        }
+        return matches;
+      };
     }
 
-    const query = `
-      SELECT id, path, name, parent_path, type, size, created_at, updated_at, content
-      FROM nodes 
-      WHERE (path LIKE ? OR path = ?) AND (${visibleCondition})
-      ORDER BY parent_path, type DESC, name ASC
-    `;
-
-    const nodes = this.sql.exec<FileNode>(query, ...params).toArray();
-    return nodes;
-  }
+    // Search each file
+    for (const file of files) {
+      if (!file.content) continue;
 
-  generateLlmsTxt(username: string): string {
-    const files = this.sql
-      .exec(
-        `
-      SELECT path, content, created_at, updated_at FROM nodes 
-      WHERE path LIKE ? AND type = 'file'
-    `,
-        `/${username}/%`,
-      )
-      .toArray() as FileNode[];
+      const matches = matcher(file.content);
+      if (matches.length === 0) continue;
 
-    const baseUrl = `https://${
-      this.env.ENVIRONMENT === "development" ? "localhost:3000" : "xytext.com"
-    }`;
-    let llmsTxt = `# ${username}'s Files\n\n`;
-    llmsTxt += `This document lists all available files for ${username}.\n\n`;
+      const lines = file.content.split("\n");
 
-    files.forEach((file) => {
-      llmsTxt += `${baseUrl}${file.path}\n`;
-    });
+      for (const match of matches) {
+        // Find line number and column
+        let charCount = 0;
+        let lineNum = 0;
 
-    if (files.length === 0) {
-      llmsTxt += `No files available for ${username}.\n`;
-    }
+        for (let i = 0; i < lines.length; i++) {
+          if (charCount + lines[i].length >= match.index) {
+            lineNum = i + 1;
+            break;
+          }
+          charCount += lines[i].length + 1; // +1 for newline
+        }
 
-    return llmsTxt;
-  }
+        const column = match.index - charCount + 1;
 
-  handleFileGet(url: URL, username: string): Response {
-    const rawPath = url.pathname;
+        // Get context lines
+        let content = lines[lineNum - 1];
+        if (contextLines > 0) {
+          const startLine = Math.max(0, lineNum - 1 - contextLines);
+          const endLine = Math.min(lines.length, lineNum + contextLines);
+          content = lines.slice(startLine, endLine).join("\n");
+        }
+
+        results.push({
+          path: file.path,
+          line: lineNum,
+          column,
+          content,
+          match: match.match,
+        });
+
+        if (results.length >= maxResults) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Full-text search using FTS5 (faster for large datasets). Files stored in
+   * chunks aren't in the index, so they are scanned for the query instead.
+   */
+  grepFTS(
+    username: string,
+    query: string,
+    options: {
+      path?: string;
+      maxResults?: number;
+      tags?: string[];
+      scopes?: string[] | null;
+    } = {},
+  ): GrepResult[] {
+    const {
+      path = `/${username}`,
+      maxResults = 1000,
+      tags = [],
+      scopes = null,
+    } = options;
+    const searchPath = userPath(path, username);
+
+    try {
+      const ftsResults: { path: string; content: string; snippet: string }[] =
+        [];
+      for (const root of this.searchRoots(username, searchPath, scopes)) {
+        if (ftsResults.length >= maxResults) break;
+
+        // Use FTS5 MATCH query
+        const rows = this.sql
+          .exec(
+            `
+            SELECT n.path, b.content, 
+                   snippet(nodes_fts, 1, '>>>>', '<<<<', '...', 32) as snippet
+            FROM nodes_fts 
+            JOIN nodes n ON nodes_fts.rowid = n.id
+            JOIN blobs b ON b.hash = n.hash
+            WHERE nodes_fts MATCH ? 
+            AND n.type = 'file'
+            AND b.chunks = 0
+            AND ${subtreeSQL("n.path")}
+            ${tags.length > 0 ? this.tagFilterSQL("n.path", tags) : ""}
+            LIMIT ?
+          `,
+            query,
+            root.target,
+            root.target,
+            root.target,
+            ...(tags.length > 0 ? [...tags, tags.length] : []),
+            maxResults - ftsResults.length,
+          )
+          .toArray() as { path: string; content: string; snippet: string }[];
+        for (const row of rows) {
+          ftsResults.push({
+            ...row,
+            path: root.path + row.path.slice(root.target.length),
+          });
+        }
+      }
+
+      const results: GrepResult[] = ftsResults.map((r) => {
+        // Find the actual line with the match
+        const lines = (r.content || "").split("\n");
+        const matchText = r.snippet.replace(/>>>>|<<<<|\.\.\./g, "").trim();
+        let lineNum = 1;
+        let column = 1;
+
+        for (let i = 0; i < lines.length; i++) {
+          const idx = lines[i].toLowerCase().indexOf(matchText.toLowerCase());
+          if (idx !== -1) {
+            lineNum = i + 1;
+            column = idx + 1;
+            break;
+          }
+        }
+
+        return {
+          path: r.path,
+          line: lineNum,
+          column,
+          content: r.snippet,
+          match: matchText,
+        };
+      });
+
+      if (results.length < maxResults) {
+        results.push(
+          ...this.grep(username, query, {
+            path,
+            maxResults: maxResults - results.length,
+            tags,
+            scopes,
+            chunked: true,
+          }),
+        );
+      }
+      return results;
+    } catch (e) {
+      console.error("FTS search error:", e);
+      // Fallback to regular grep
+      return this.grep(username, query, { path, maxResults, tags, scopes });
+    }
+  }
+
+  // ==================== FIND IMPLEMENTATION ====================
+
+  /**
+   * Find files and folders by name pattern
+   * Supports:
+   * - Glob patterns (*, ?)
+   * - Type filtering (file/folder)
+   * - Size filtering
+   * - Date filtering
+   * - Depth limiting
+   */
+  find(
+    username: string,
+    options: {
+      path?: string; // Starting path
+      name?: string; // Name pattern (glob)
+      type?: NodeType | "all";
+      minSize?: number; // Minimum size in bytes
+      maxSize?: number; // Maximum size in bytes
+      newerThan?: number; // Unix timestamp
+      olderThan?: number; // Unix timestamp
+      maxDepth?: number; // Maximum directory depth
+      maxResults?: number; // Limit results
+      tags?: string[]; // Only nodes having all of these tags
+      expiring?: boolean; // Only nodes with an expiry still to come
+      expired?: boolean; // Only nodes past their expiry, not yet deleted
+      expiresBefore?: number; // Only nodes expiring by this Unix timestamp
+    } = {},
+  ): FindResult[] {
+    const {
+      path = `/${username}`,
+      name,
+      type = "all",
+      minSize,
+      maxSize,
+      newerThan,
+      olderThan,
+      maxDepth,
+      maxResults = 1000,
+      tags = [],
+      expiring,
+      expired,
+      expiresBefore,
+    } = options;
+
+    const searchPath = userPath(path, username);
+
+    // Build query
+    let query = `
+      SELECT path, name, type, size, created_at, updated_at, mime_type,
+        CASE WHEN type = 'link' THEN content END as target, expires_at,
+        ${sha256SQL()} as sha256
+      FROM nodes 
+      WHERE ${subtreeSQL()}
+    `;
+    const params: any[] = [searchPath, searchPath, searchPath];
+
+    // Name pattern filter
+    if (name) {
+      const sqlPattern = name.replace(/\*/g, "%").replace(/\?/g, "_");
+      query += ` AND name LIKE ?`;
+      params.push(sqlPattern);
+    }
+
+    // Type filter
+    if (type !== "all") {
+      query += ` AND type = ?`;
+      params.push(type);
+    }
+
+    // Size filters
+    if (minSize !== undefined) {
+      query += ` AND size >= ?`;
+      params.push(minSize);
+    }
+    if (maxSize !== undefined) {
+      query += ` AND size <= ?`;
+      params.push(maxSize);
+    }
+
+    // Date filters
+    if (newerThan !== undefined) {
+      query += ` AND updated_at >= ?`;
+      params.push(newerThan);
+    }
+    if (olderThan !== undefined) {
+      query += ` AND updated_at <= ?`;
+      params.push(olderThan);
+    }
+
+    // Expiry filters
+    const now = Math.round(Date.now() / 1000);
+    if (expiring) {
+      query += ` AND expires_at > ?`;
+      params.push(now);
+    }
+    if (expired) {
+      query += ` AND expires_at <= ?`;
+      params.push(now);
+    }
+    if (expiresBefore !== undefined) {
+      query += ` AND expires_at <= ?`;
+      params.push(expiresBefore);
+    }
+
+    // Tag filter (all tags must match)
+    if (tags.length > 0) {
+      query += this.tagFilterSQL("path", tags);
+      params.push(...tags, tags.length);
+    }
+
+    query += ` ORDER BY path LIMIT ?`;
+    params.push(maxResults);
+
+    let results = this.sql.exec(query, ...params).toArray() as FindResult[];
+
+    // Apply depth filter (can't easily do in SQL)
+    if (maxDepth !== undefined) {
+      const baseDepth = searchPath.split("/").filter((p) => p).length;
+      results = results.filter((r) => {
+        const depth = r.path.split("/").filter((p) => p).length - baseDepth;
+        return depth <= maxDepth;
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find files by extension
+   */
+  findByExtension(
+    username: string,
+    extension: string,
+    path?: string,
+  ): FindResult[] {
+    const pattern = extension.startsWith(".")
+      ? `*${extension}`
+      : `*.${extension}`;
+    return this.find(username, { path, name: pattern, type: "file" });
+  }
+
+  /**
+   * Find empty files or folders
+   */
+  findEmpty(
+    username: string,
+    type: "file" | "folder" | "all" = "all",
+    path?: string,
+  ): FindResult[] {
+    const searchPath = userPath(path ?? "/", username);
+
+    if (type === "file" || type === "all") {
+      // Empty files have size 0
+      const emptyFiles = this.find(username, {
+        path,
+        type: "file",
+        maxSize: 0,
+      });
+
+      if (type === "file") return emptyFiles;
+
+      // Empty folders have no children
+      const allFolders = this.find(username, { path, type: "folder" });
+      const emptyFolders = allFolders.filter((folder) => {
+        const children = this.sql
+          .exec(
+            `SELECT COUNT(*) as count FROM nodes WHERE parent_path = ?`,
+            folder.path,
+          )
+          .toArray()[0] as { count: number };
+        return children.count === 0;
+      });
+
+      return [...emptyFiles, ...emptyFolders];
+    } else {
+      // Only folders
+      const allFolders = this.find(username, { path, type: "folder" });
+      return allFolders.filter((folder) => {
+        const children = this.sql
+          .exec(
+            `SELECT COUNT(*) as count FROM nodes WHERE parent_path = ?`,
+            folder.path,
+          )
+          .toArray()[0] as { count: number };
+        return children.count === 0;
+      });
+    }
+  }
+
+  /**
+   * Get file/folder statistics. Files include the SHA-256 of their content
+   * as `sha256`; text files also have it as their blob `hash`.
+   */
+  stat(
+    username: string,
+    path: string,
+  ):
+    | (FindResult & {
+        content?: string;
+        chunks: number;
+        hash: string | null;
+        lock?: LockInfo;
+      })
+    | null {
+    const fullPath = userPath(path, username);
+
+    const result = this.sql
+      .exec(
+        `SELECT n.path, n.name, n.type, n.size, n.created_at, n.updated_at, n.mime_type, n.chunks, n.hash, n.expires_at,
+           CASE WHEN n.type = 'file' THEN b.content ELSE n.content END as content,
+           CASE WHEN n.type = 'link' THEN n.content END as target,
+           ${sha256SQL("n")} as sha256
+         FROM nodes n LEFT JOIN blobs b ON b.hash = n.hash
+         WHERE n.path = ?`,
+        fullPath,
+      )
+      .toArray()[0] as
+      | (FindResult & {
+          content?: string;
+          chunks: number;
+          hash: string | null;
+          lock?: LockInfo;
+        })
+      | undefined;
+
+    if (
+      result &&
+      (result.type === "binary" || result.type === "link" || result.chunks > 0)
+    ) {
+      // Binary content lives in the bucket, `content` only holds its key.
+      // Links are returned unresolved, with their target. Chunked files are
+      // too large to inline; read them with GET or head/tail.
+      delete result.content;
+    }
+
+    const lock = result && this.activeLock(fullPath);
+    if (lock) result.lock = lock;
+
+    return result || null;
+  }
+
+  /**
+   * Get disk usage (du equivalent)
+   */
+  du(
+    username: string,
+    path?: string,
+  ): {
+    path: string;
+    totalSize: number;
+    fileCount: number;
+    folderCount: number;
+  } {
+    const searchPath = userPath(path ?? "/", username);
+
+    const stats = this.sql
+      .exec(
+        `SELECT 
+          COALESCE(SUM(size), 0) as totalSize,
+          SUM(CASE WHEN type IN ('file', 'binary') THEN 1 ELSE 0 END) as fileCount,
+          SUM(CASE WHEN type = 'folder' THEN 1 ELSE 0 END) as folderCount
+         FROM nodes 
+         WHERE ${subtreeSQL()}`,
+        searchPath,
+        searchPath,
+        searchPath,
+      )
+      .toArray()[0] as {
+      totalSize: number;
+      fileCount: number;
+      folderCount: number;
+    };
+
+    return {
+      path: searchPath,
+      ...stats,
+    };
+  }
+
+  // ==================== APPEND OPERATION ====================
+
+  /**
+   * Append content to a file
+   */
+  appendContent(
+    path: string,
+    content: string,
+    clientId: string | null = null,
+  ): void {
+    const existing = this.sql
+      .exec(
+        `SELECT hash, type, size, mime_type, updated_by FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          hash: string | null;
+          type: string;
+          size: number;
+          mime_type: string | null;
+          updated_by: string | null;
+        }
+      | undefined;
+
+    if (!existing) {
+      // Create new file if doesn't exist
+      this.saveContent(path, content, clientId);
+      return;
+    }
+
+    if (existing.type !== "file") {
+      throw new Error(`Cannot append content to a ${existing.type}`);
+    }
+
+    this.validateContent(
+      path,
+      () => this.readBlob(existing.hash) + content,
+      existing.mime_type || mimeTypeFromPath(path),
+    );
+
+    const size = utf8ByteLength(content);
+    this.checkQuota(
+      clientId,
+      existing.size + size,
+      { ...existing, kept: true },
+      size,
+    );
+
+    const now = Math.round(Date.now() / 1000);
+
+    this.transaction(() => {
+      this.recordRevision(path, now);
+      const hash = this.appendBlob(existing.hash, content);
+      this.sql.exec(
+        `UPDATE nodes SET hash = ?, chunks = (SELECT chunks FROM blobs WHERE hash = ?),
+           size = size + ?, updated_at = ?, updated_by = ? WHERE path = ?`,
+        hash,
+        hash,
+        size,
+        now,
+        clientId,
+        path,
+      );
+    });
+  }
+
+  /**
+   * Read partial file content (head/tail), counted in lines or in UTF-8
+   * bytes. Byte mode returns only whole characters that fit.
+   */
+  readPartial(
+    username: string,
+    path: string,
+    options: { head?: number; tail?: number; lines?: boolean } = {},
+    scopes: string[] | null = null,
+  ): string {
+    const fullPath = this.resolveReadable(
+      username,
+      userPath(path, username),
+      scopes,
+    );
+
+    const blob = this.fileBlob(fullPath);
+    if (!blob) {
+      throw new Error("File not found");
+    }
+
+    const { head, tail, lines = true } = options;
+    const content =
+      blob.chunks > 0
+        ? this.readChunksFor(blob.hash, blob.chunks, options)
+        : blob.content || "";
+
+    if (lines) {
+      const contentLines = content.split("\n");
+      if (head !== undefined) {
+        return contentLines.slice(0, head).join("\n");
+      }
+      if (tail !== undefined) {
+        return contentLines.slice(-tail).join("\n");
+      }
+    } else {
+      if (head !== undefined) {
+        return utf8Head(content, head);
+      }
+      if (tail !== undefined) {
+        return utf8Tail(content, tail);
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * Word count (wc equivalent). chars counts Unicode characters and bytes
+   * the UTF-8 size.
+   */
+  wc(
+    username: string,
+    path: string,
+    scopes: string[] | null = null,
+  ): { lines: number; words: number; chars: number; bytes: number } {
+    const fullPath = this.resolveReadable(
+      username,
+      userPath(path, username),
+      scopes,
+    );
+
+    const result = this.sql
+      .exec(
+        `SELECT hash, size, chunks FROM nodes WHERE path = ? AND type = 'file'`,
+        fullPath,
+      )
+      .toArray()[0] as
+      { hash: string | null; size: number; chunks: number } | undefined;
+
+    if (!result) {
+      throw new Error("File not found");
+    }
+
+    // Count chunk by chunk; a word split across two chunks counts once
+    let lines = 1;
+    let words = 0;
+    let chars = 0;
+    let inWord = false;
+    const pieces =
+      result.chunks > 0 && result.hash
+        ? this.iterateChunks(result.hash, result.chunks)
+        : [this.readBlob(result.hash)];
+    for (const piece of pieces) {
+      lines += piece.split("\n").length - 1;
+      const pieceWords = piece.split(/\s+/).filter((w) => w.length > 0);
+      words += pieceWords.length;
+      if (inWord && /^\S/.test(piece)) words--;
+      if (piece.length > 0) inWord = /\S$/.test(piece);
+      chars += codePointLength(piece);
+    }
+
+    return {
+      lines,
+      words,
+      chars,
+      bytes: result.size,
+    };
+  }
+
+  // ==================== JSON SCHEMAS ====================
+
+  /**
+   * Throw unless content may be written at path. A schema file must hold a
+   * usable schema, and a JSON file must match the schema of every folder
+   * above it. Other files aren't checked, so content is only read if needed.
+   */
+  private validateContent(
+    path: string,
+    content: () => string,
+    mimeType: string,
+  ): void {
+    if (this.parsePathComponents(path).name === SCHEMA_FILE_NAME) {
+      this.parseSchema(path, content());
+      return;
+    }
+    if (mimeType !== "application/json" && !mimeType.endsWith("+json")) {
+      return;
+    }
+
+    const schemas = this.folderSchemas(path);
+    if (schemas.length === 0) return;
+
+    let value: JsonValue;
+    try {
+      value = JSON.parse(content());
+    } catch {
+      throw new SchemaValidationError(schemas[0].path, [
+        {
+          instancePath: "",
+          schemaPath: "#",
+          keyword: "json",
+          message: "must be valid JSON",
+        },
+      ]);
+    }
+    for (const { path: schemaPath, schema } of schemas) {
+      const errors = validateSchema(schema, value);
+      if (errors.length > 0) {
+        throw new SchemaValidationError(schemaPath, errors);
+      }
+    }
+  }
+
+  /**
+   * Throw unless every file at or below root, put there by a move, copy or
+   * restore rather than a write, may be there. Call it inside the
+   * transaction that put them there so a failure rolls it back.
+   */
+  private validateSubtree(root: string): void {
+    const schema = this.sql
+      .exec(
+        `SELECT 1 FROM nodes WHERE name = ? AND type = 'file' LIMIT 1`,
+        SCHEMA_FILE_NAME,
+      )
+      .toArray()[0];
+    if (!schema) return;
+
+    const files = this.sql
+      .exec(
+        `SELECT path, hash, mime_type FROM nodes WHERE type = 'file' AND ${subtreeSQL()}`,
+        root,
+        root,
+        root,
+      )
+      .toArray() as { path: string; hash: string; mime_type: string | null }[];
+    for (const file of files) {
+      this.validateContent(
+        file.path,
+        () => this.readBlob(file.hash),
+        file.mime_type || mimeTypeFromPath(file.path),
+      );
+    }
+  }
+
+  private parseSchema(path: string, content: string): unknown {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(content);
+    } catch {
+      throw new Error(`Schema at ${path} is not valid JSON`);
+    }
+    checkSchema(schema);
+    return schema;
+  }
+
+  // Schemas of the folders above path, outermost first
+  private folderSchemas(path: string): { path: string; schema: unknown }[] {
+    const schemaPaths: string[] = [];
+    let folder = this.parsePathComponents(path).parent_path;
+    while (folder) {
+      schemaPaths.push(`${folder}/${SCHEMA_FILE_NAME}`);
+      folder = this.parsePathComponents(folder).parent_path;
+    }
+    if (schemaPaths.length === 0) return [];
+
+    const rows = this.sql
+      .exec(
+        `SELECT path, hash FROM nodes WHERE type = 'file' AND path IN (${schemaPaths.map(() => "?").join(", ")})
+         ORDER BY length(path)`,
+        ...schemaPaths,
+      )
+      .toArray() as { path: string; hash: string }[];
+
+    return rows.map((row) => {
+      if (!this.schemaCache.has(row.hash)) {
+        if (this.schemaCache.size >= 100) this.schemaCache.clear();
+        this.schemaCache.set(
+          row.hash,
+          this.parseSchema(row.path, this.readBlob(row.hash)),
+        );
+      }
+      return { path: row.path, schema: this.schemaCache.get(row.hash) };
+    });
+  }
+
+  // ==================== JSON INDEXES ====================
+
+  /**
+   * Replace the fields indexed for the JSON files below folder, and index
+   * the files already there. No fields removes the folder's indexes.
+   * Returns how many files have a value for some field.
+   */
+  setJSONIndexes(folder: string, fields: string[]): number {
+    const node = this.sql
+      .exec(`SELECT type FROM nodes WHERE path = ?`, folder)
+      .toArray()[0] as { type: string } | undefined;
+    if (node?.type !== "folder") {
+      throw new Error("Indexes can only be set on a folder");
+    }
+    if (fields.length > MAX_INDEX_FIELDS) {
+      throw new Error(`At most ${MAX_INDEX_FIELDS} fields can be indexed`);
+    }
+    for (const field of fields) {
+      if (typeof field !== "string" || !INDEX_FIELD_PATTERN.test(field)) {
+        throw new Error(
+          `Invalid index field: ${field}. Use dotted names like author or meta.created_at, with [] for arrays like tags[]`,
+        );
+      }
+    }
+
+    const now = Math.round(Date.now() / 1000);
+    this.transaction(() => {
+      this.sql.exec(`DELETE FROM json_indexes WHERE folder = ?`, folder);
+      this.sql.exec(`DELETE FROM json_index_values WHERE folder = ?`, folder);
+      for (const field of new Set(fields)) {
+        const isArray = field.endsWith("[]");
+        const name = isArray ? field.slice(0, -2) : field;
+        this.sql.exec(
+          `INSERT OR REPLACE INTO json_indexes (folder, field, json_path, is_array, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          folder,
+          name,
+          "$" +
+            name
+              .split(".")
+              .map((member) => `."${member}"`)
+              .join(""),
+          isArray ? 1 : 0,
+          now,
+        );
+      }
+      for (const statement of jsonIndexValuesSQL(
+        `i.folder = ? AND ${subtreeSQL("t.path")}`,
+      )) {
+        this.sql.exec(statement, folder, folder, folder, folder);
+      }
+    });
+
+    const indexed = this.sql
+      .exec(
+        `SELECT COUNT(DISTINCT path) as count FROM json_index_values WHERE folder = ?`,
+        folder,
+      )
+      .one() as { count: number };
+    return indexed.count;
+  }
+
+  /**
+   * Index definitions of path and the folders below it
+   */
+  listJSONIndexes(path: string): JSONIndex[] {
+    const rows = this.sql
+      .exec(
+        `SELECT folder, field, is_array, created_at FROM json_indexes
+         WHERE ${subtreeSQL("folder")} ORDER BY folder, field`,
+        path,
+        path,
+        path,
+      )
+      .toArray() as {
+      folder: string;
+      field: string;
+      is_array: number;
+      created_at: number;
+    }[];
+
+    const indexes = new Map<string, JSONIndex>();
+    for (const row of rows) {
+      if (!indexes.has(row.folder)) {
+        indexes.set(row.folder, {
+          path: row.folder,
+          fields: [],
+          created_at: row.created_at,
+        });
+      }
+      indexes
+        .get(row.folder)!
+        .fields.push(row.is_array ? `${row.field}[]` : row.field);
+    }
+    return [...indexes.values()];
+  }
+
+  /**
+   * JSON files below folder whose indexed fields match where, sorted on a
+   * field (prefix - for descending) and paged. Each field uses the index of
+   * the nearest folder at or above folder that declares it. Files the
+   * scopes can't read are left out before paging.
+   */
+  queryJSON(
+    username: string,
+    folder: string,
+    options: {
+      where?: Record<string, unknown>;
+      sort?: string;
+      limit?: number;
+      offset?: number;
+    },
+    scopes: string[] | null = null,
+  ): { results: QueryResult[]; hasMore: boolean } {
+    const { where = {}, sort, limit = 100, offset = 0 } = options;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_RESULTS) {
+      throw new Error(`limit must be between 1 and ${MAX_QUERY_RESULTS}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error("offset must be a non-negative integer");
+    }
+
+    // Nearest index for each field
+    const indexes = new Map<string, { folder: string; isArray: boolean }>();
+    const definitions = this.sql
+      .exec(
+        `SELECT folder, field, is_array FROM json_indexes
+         WHERE folder = ? OR substr(?, 1, length(folder) + 1) = folder || '/'
+         ORDER BY length(folder) DESC`,
+        folder,
+        folder,
+      )
+      .toArray() as { folder: string; field: string; is_array: number }[];
+    for (const row of definitions) {
+      if (!indexes.has(row.field)) {
+        indexes.set(row.field, {
+          folder: row.folder,
+          isArray: row.is_array === 1,
+        });
+      }
+    }
+    const indexFor = (field: string) => {
+      const index = indexes.get(field);
+      if (!index) throw new Error(`No index on ${field} for ${folder}`);
+      return index;
+    };
+    const sqlValue = (value: unknown) => {
+      if (typeof value === "boolean") return value ? 1 : 0;
+      if (typeof value === "string" || typeof value === "number") {
+        return value;
+      }
+      throw new Error("Query values must be strings, numbers or booleans");
+    };
+
+    let query = `
+      SELECT n.path, n.size, n.updated_at FROM nodes n
+      WHERE n.type = 'file'
+        AND substr(n.path, 1, length(?) + 1) = ? || '/'
+        AND (n.mime_type = 'application/json' OR n.mime_type LIKE '%+json')
+    `;
+    const params: unknown[] = [folder, folder];
+
+    if (where === null || typeof where !== "object" || Array.isArray(where)) {
+      throw new Error("where must be an object of fields to conditions");
+    }
+    for (const [field, condition] of Object.entries(where)) {
+      const index = indexFor(field);
+      const operators: [string, unknown][] =
+        condition !== null &&
+        typeof condition === "object" &&
+        !Array.isArray(condition)
+          ? Object.entries(condition)
+          : [["eq", condition]];
+
+      for (const [operator, value] of operators) {
+        const sqlOperator = QUERY_OPERATORS[operator];
+        if (!sqlOperator) {
+          throw new Error(
+            `Unknown operator ${operator}. Use one of: ${Object.keys(QUERY_OPERATORS).join(", ")}`,
+          );
+        }
+        const values = operator === "in" ? value : [value];
+        if (!Array.isArray(values) || values.length === 0) {
+          throw new Error("in needs a non-empty array of values");
+        }
+        const test =
+          operator === "in"
+            ? `value IN (${values.map(() => "?").join(", ")})`
+            : `value ${sqlOperator} ?`;
+        query += ` AND n.path ${operator === "ne" ? "NOT IN" : "IN"} (
+          SELECT path FROM json_index_values
+          WHERE folder = ? AND field = ? AND ${test}
+        )`;
+        params.push(index.folder, field, ...values.map(sqlValue));
+      }
+    }
+
+    if (sort !== undefined) {
+      if (typeof sort !== "string") throw new Error("sort must be a field");
+      const descending = sort.startsWith("-");
+      const field = descending ? sort.slice(1) : sort;
+      const index = indexFor(field);
+      query += ` ORDER BY (
+        SELECT ${descending ? "MAX" : "MIN"}(value) FROM json_index_values
+        WHERE path = n.path AND folder = ? AND field = ?
+      ) ${descending ? "DESC" : "ASC"} NULLS LAST, n.path`;
+      params.push(index.folder, field);
+    } else {
+      query += ` ORDER BY n.path`;
+    }
+
+    // Page over the readable files only, reading no more rows than needed
+    const results: QueryResult[] = [];
+    let skipped = 0;
+    let hasMore = false;
+    for (const row of this.sql.exec(query, ...params)) {
+      const path = row.path as string;
+      if (!this.canRead(username, scopes, path)) continue;
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      if (results.length === limit) {
+        hasMore = true;
+        break;
+      }
+      results.push({
+        path,
+        size: row.size as number,
+        updated_at: row.updated_at as number,
+        fields: {},
+      });
+    }
+
+    for (const result of results) {
+      const values = this.sql
+        .exec(
+          `SELECT folder, field, value FROM json_index_values WHERE path = ? ORDER BY rowid`,
+          result.path,
+        )
+        .toArray() as { folder: string; field: string; value: unknown }[];
+      for (const { folder: indexFolder, field, value } of values) {
+        const index = indexes.get(field);
+        if (index?.folder !== indexFolder) continue;
+        if (index.isArray) {
+          ((result.fields[field] ??= []) as unknown[]).push(value);
+        } else {
+          result.fields[field] = value;
+        }
+      }
+    }
+
+    return { results, hasMore };
+  }
+
+  // ==================== LOG FILES ====================
+
+  /**
+   * Append records to a log file, creating it if needed. A log file holds
+   * one JSON record per line, so it moves, copies and snapshots like any
+   * other file. Returns the records as written.
+   */
+  appendLogRecords(
+    path: string,
+    data: unknown[],
+    clientId: string | null = null,
+  ): LogRecord[] {
+    const existing = this.sql
+      .exec(`SELECT type FROM nodes WHERE path = ?`, path)
+      .toArray()[0] as { type: string } | undefined;
+    if (existing && existing.type !== "file") {
+      throw new Error(`Cannot append records to a ${existing.type}`);
+    }
+
+    const last = existing ? this.lastLogSeq(path) : 0;
+    const now = Math.round(Date.now() / 1000);
+    const records = data.map((item, i) => ({
+      seq: last + i + 1,
+      created_at: now,
+      data: item,
+    }));
+    const lines = records.map((record) => `${JSON.stringify(record)}\n`);
+
+    if (existing) {
+      this.appendContent(path, lines.join(""), clientId);
+    } else {
+      this.saveContent(path, lines.join(""), clientId, LOG_MIME_TYPE);
+    }
+    return records;
+  }
+
+  // seq of the last record, reading only the last chunks of a large log
+  private lastLogSeq(path: string): number {
+    const blob = this.fileBlob(path);
+    const tail = !blob
+      ? ""
+      : blob.chunks > 0
+        ? this.readChunksFor(blob.hash, blob.chunks, { tail: 2 })
+        : blob.content || "";
+
+    const lines = tail.split("\n").filter((line) => line.length > 0);
+    return lines.length ? parseLogRecord(lines[lines.length - 1]).seq : 0;
+  }
+
+  /**
+   * Up to limit records with seq greater than after, oldest first. Returns
+   * null if there is no file at path.
+   */
+  readLogRecords(
+    path: string,
+    after: number,
+    limit: number,
+  ): { records: LogRecord[]; hasMore: boolean } | null {
+    const blob = this.fileBlob(path);
+    if (!blob) return null;
+
+    const start = blob.chunks > 0 ? this.logStartChunk(blob, after) : 0;
+    const pieces =
+      blob.chunks > 0
+        ? this.iterateChunks(blob.hash, blob.chunks, false, start)
+        : [blob.content || ""];
+
+    const records: LogRecord[] = [];
+    // A chunk other than the first starts partway through a record
+    let skip = start > 0;
+    let rest = "";
+    const take = (line: string): boolean => {
+      if (skip || line.length === 0) {
+        skip = false;
+        return true;
+      }
+      const record = parseLogRecord(line);
+      if (record.seq <= after) return true;
+      if (records.length === limit) return false;
+      records.push(record);
+      return true;
+    };
+
+    for (const piece of pieces) {
+      const lines = (rest + piece).split("\n");
+      rest = lines.pop()!;
+      for (const line of lines) {
+        if (!take(line)) return { records, hasMore: true };
+      }
+    }
+    if (!take(rest)) return { records, hasMore: true };
+    return { records, hasMore: false };
+  }
+
+  /**
+   * Binary search a chunked log for a chunk to start reading at: one whose
+   * first record starting inside it is at or before after, so every later
+   * record is found by reading on from there.
+   */
+  private logStartChunk(
+    blob: { hash: string; chunks: number },
+    after: number,
+  ): number {
+    let start = 0;
+    let low = 1;
+    let high = blob.chunks - 1;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      const content = this.readChunk(blob.hash, middle);
+      const seq = content.match(/\n\{"seq":(\d+)/)?.[1];
+      if (seq !== undefined && Number(seq) <= after) {
+        start = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return start;
+  }
+
+  // Send a follower every record after its cursor, a page at a time
+  private sendLogBacklog(socket: WebSocket, path: string, after: number): void {
+    let cursor = after;
+    for (;;) {
+      const page = this.readLogRecords(path, cursor, MAX_LOG_RECORDS);
+      if (!page || page.records.length === 0) return;
+      socket.send(
+        JSON.stringify({ type: "records", path, records: page.records }),
+      );
+      if (!page.hasMore) return;
+      cursor = page.records[page.records.length - 1].seq;
+    }
+  }
+
+  // ==================== CHANGE FEED ====================
+
+  /**
+   * Latest cursor of the change feed, 0 before the first change
+   */
+  latestChangeCursor(): number {
+    const row = this.sql
+      .exec(`SELECT COALESCE(MAX(cursor), 0) as cursor FROM changes`)
+      .toArray()[0] as { cursor: number };
+    return row.cursor;
+  }
+
+  /**
+   * Up to limit changes after since at or below prefix (or moved from
+   * below it) that the token can read, oldest first. The returned cursor is
+   * where to continue from; it moves past changes the token can't read.
+   * Returns null when changes after since have been compacted away.
+   */
+  readChanges(
+    username: string,
+    prefix: string,
+    since: number,
+    limit: number,
+    scopes: string[] | null = null,
+  ): { changes: ChangeEntry[]; cursor: number; hasMore: boolean } | null {
+    const oldest = this.sql
+      .exec(`SELECT MIN(cursor) as cursor FROM changes`)
+      .toArray()[0] as { cursor: number | null };
+    if (oldest.cursor !== null && since < oldest.cursor - 1) return null;
+
+    const rows = this.sql.exec(
+      `SELECT cursor, path, action, old_path, type, created_at FROM changes
+       WHERE cursor > ? AND (${subtreeSQL()} OR ${subtreeSQL("old_path")})
+       ORDER BY cursor`,
+      since,
+      prefix,
+      prefix,
+      prefix,
+      prefix,
+      prefix,
+      prefix,
+    ) as unknown as Iterable<ChangeEntry>;
+
+    const changes: ChangeEntry[] = [];
+    let cursor = since;
+    for (const change of rows) {
+      if (changes.length === limit) return { changes, cursor, hasMore: true };
+      cursor = change.cursor;
+      if (
+        this.canRead(username, scopes, change.path) ||
+        (change.old_path !== null &&
+          this.canRead(username, scopes, change.old_path))
+      ) {
+        changes.push(change);
+      }
+    }
+    return { changes, cursor, hasMore: false };
+  }
+
+  // ==================== LOCKS ====================
+
+  /**
+   * Take an advisory lock on a path, or refresh one when `token` is the
+   * token it was taken with. A lock covers the node and everything below
+   * it. Only writes that present the token can touch a locked path until
+   * the lock is released or expires.
+   */
+  lockPath(
+    path: string,
+    options: { ttl?: number; owner?: string; token?: string },
+  ): LockInfo & { token: string } {
+    const { ttl = DEFAULT_LOCK_TTL, owner, token } = options;
+    if (!Number.isInteger(ttl) || ttl < 1 || ttl > MAX_LOCK_TTL) {
+      throw new Error(
+        `ttl must be a whole number of seconds from 1 to ${MAX_LOCK_TTL}`,
+      );
+    }
+    if (typeof owner !== "string" || !owner) {
+      throw new Error("owner must be a non-empty string");
+    }
+    if (owner.length > MAX_LOCK_OWNER_LENGTH) {
+      throw new Error(
+        `owner must be at most ${MAX_LOCK_OWNER_LENGTH} characters`,
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.transaction(() => {
+      this.sql.exec(`DELETE FROM locks WHERE expires_at <= ?`, now);
+
+      if (token !== undefined) {
+        const held = this.sql
+          .exec(
+            `SELECT path, created_at FROM locks WHERE token = ?`,
+            String(token),
+          )
+          .toArray()[0] as { path: string; created_at: number } | undefined;
+        if (!held || held.path !== path) {
+          throw new Error(`No lock on ${path} with that token`);
+        }
+        this.sql.exec(
+          `UPDATE locks SET owner = ?, expires_at = ? WHERE token = ?`,
+          owner,
+          now + ttl,
+          token,
+        );
+        return {
+          path,
+          owner,
+          created_at: held.created_at,
+          expires_at: now + ttl,
+          token,
+        };
+      }
+
+      this.assertUnlocked(null, path);
+      const lock = {
+        path,
+        owner,
+        created_at: now,
+        expires_at: now + ttl,
+        token: crypto.randomUUID(),
+      };
+      this.sql.exec(
+        `INSERT INTO locks (path, token, owner, created_at, expires_at) VALUES (?, ?, ?, ?, ?)`,
+        lock.path,
+        lock.token,
+        lock.owner,
+        lock.created_at,
+        lock.expires_at,
+      );
+      return lock;
+    });
+  }
+
+  /**
+   * Release the lock on a path. Returns false if there was no live lock.
+   */
+  unlockPath(path: string, token: string): boolean {
+    const now = Math.floor(Date.now() / 1000);
+    const lock = this.sql
+      .exec(
+        `SELECT path, token, owner, created_at, expires_at FROM locks
+         WHERE path = ? AND expires_at > ?`,
+        path,
+        now,
+      )
+      .toArray()[0] as unknown as (LockInfo & { token: string }) | undefined;
+    if (!lock) return false;
+    if (lock.token !== token) {
+      const { token: _token, ...info } = lock;
+      throw new LockedError(info);
+    }
+    this.sql.exec(`DELETE FROM locks WHERE path = ?`, path);
+    return true;
+  }
+
+  /**
+   * The live lock covering a path: on the path itself or a folder above it
+   */
+  activeLock(path: string): LockInfo | null {
+    const lock = this.sql
+      .exec(
+        `SELECT path, owner, created_at, expires_at FROM locks
+         WHERE expires_at > ?
+           AND (path = ? OR substr(?, 1, length(path) + 1) = path || '/')
+         ORDER BY length(path) LIMIT 1`,
+        Math.floor(Date.now() / 1000),
+        path,
+        path,
+      )
+      .toArray()[0] as unknown as LockInfo | undefined;
+    return lock || null;
+  }
+
+  /**
+   * Throw a LockedError if a live lock not held with `token` covers any of
+   * the paths, or anything below them
+   */
+  assertUnlocked(token: string | null, ...paths: string[]): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const path of paths) {
+      const lock = this.sql
+        .exec(
+          `SELECT path, owner, created_at, expires_at FROM locks
+           WHERE expires_at > ? AND token IS NOT ?
+             AND (${subtreeSQL()}
+               OR substr(?, 1, length(path) + 1) = path || '/')
+           ORDER BY length(path) LIMIT 1`,
+          now,
+          token,
+          path,
+          path,
+          path,
+          path,
+        )
+        .toArray()[0] as unknown as LockInfo | undefined;
+      if (lock) throw new LockedError(lock);
+    }
+  }
+
+  /**
+   * 423 response if a lock the request doesn't hold covers any of the
+   * paths. Holders send their token in the Lock-Token header.
+   */
+  checkLocks(request: Request, ...paths: string[]): Response | null {
+    try {
+      this.assertUnlocked(request.headers.get("Lock-Token"), ...paths);
+      return null;
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: (error as Error).message,
+          ...errorDetails(error),
+        }),
+        {
+          status: errorStatus(error),
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  }
+
+  /**
+   * Tell connected sessions a path was locked, or unlocked when lock is null
+   */
+  broadcastLock(path: string, lock: LockInfo | null): void {
+    this.broadcastMessage({ type: lock ? "lock" : "unlock", path, lock });
+  }
+
+  // ==================== QUOTAS ====================
+
+  /**
+   * Throw a QuotaError when a node of `size` bytes in place of `replaced`
+   * would exceed the user's quota or the writing client's quota. `written`
+   * is the size of the request itself, which differs for appends. Nodes
+   * count towards the client that last wrote them, trashed nodes included.
+   * Replaced content that is `kept` as a revision frees nothing for the
+   * user, so the whole write counts.
+   */
+  private checkQuota(
+    clientId: string | null,
+    size: number,
+    replaced?: { size: number; updated_by: string | null; kept?: boolean },
+    written: number = size,
+  ): void {
+    const userGrowth = replaced?.kept ? written : size - (replaced?.size ?? 0);
+    if (userGrowth > 0) {
+      this.checkLimit("storage", this.userQuota(), written, userGrowth);
+    }
+
+    const clientLimit = clientId ? this.clientQuota(clientId) : null;
+    if (clientId && clientLimit !== null) {
+      const clientGrowth =
+        size - (replaced?.updated_by === clientId ? replaced.size : 0);
+      if (clientGrowth > 0) {
+        this.checkLimit(
+          `client ${clientId}`,
+          clientLimit,
+          written,
+          clientGrowth,
+          clientId,
+        );
+      }
+    }
+  }
+
+  private checkLimit(
+    label: string,
+    limit: number,
+    written: number,
+    growth: number,
+    clientId?: string,
+  ): void {
+    if (written > limit) {
+      throw new QuotaError(
+        `Write of ${written} bytes is larger than the ${label} limit of ${limit} bytes`,
+        413,
+      );
+    }
+    const used = this.storageUsed(clientId);
+    if (used + growth > limit) {
+      throw new QuotaError(
+        `Insufficient storage: ${used} of ${limit} bytes of the ${label} limit used, this write needs ${growth} more`,
+        507,
+      );
+    }
+  }
+
+  /**
+   * Bytes stored by the user, or by one client, including the trash. The
+   * user's total also counts what revisions and snapshots keep.
+   */
+  private storageUsed(clientId?: string): number {
+    const condition = clientId === undefined ? `1 = 1` : `updated_by = ?`;
+    const params = clientId === undefined ? [] : [clientId];
+    const { used } = this.sql
+      .exec(
+        `SELECT
+           (SELECT COALESCE(SUM(size), 0) FROM nodes WHERE ${condition}) +
+           (SELECT COALESCE(SUM(size), 0) FROM trash WHERE ${condition}) as used`,
+        ...params,
+        ...params,
+      )
+      .one() as { used: number };
+    return clientId === undefined ? used + this.historyBytes() : used;
+  }
+
+  /**
+   * Bytes kept only by revisions and snapshots, counted as stored: a chunk
+   * shared with a current file, or between kept versions, counts once
+   */
+  private historyBytes(): number {
+    const { bytes } = this.sql
+      .exec(
+        `
+        WITH live AS (
+          SELECT hash FROM nodes WHERE hash IS NOT NULL
+          UNION SELECT hash FROM trash WHERE hash IS NOT NULL
+        ),
+        kept AS (
+          SELECT hash FROM revisions WHERE hash IS NOT NULL
+          UNION SELECT hash FROM snapshot_nodes WHERE hash IS NOT NULL
+          EXCEPT SELECT hash FROM live
+        ),
+        live_binaries AS (
+          SELECT content FROM nodes WHERE type = 'binary' AND content IS NOT NULL
+          UNION SELECT content FROM trash WHERE type = 'binary' AND content IS NOT NULL
+        )
+        SELECT
+          (SELECT COALESCE(SUM(size), 0) FROM blobs
+           WHERE chunks = 0 AND hash IN kept) +
+          (SELECT COALESCE(SUM(bytes), 0) FROM (
+             SELECT DISTINCT chunk, bytes FROM blob_chunk_refs
+             WHERE hash IN kept
+               AND chunk NOT IN (
+                 SELECT chunk FROM blob_chunk_refs WHERE hash IN live
+               )
+           )) +
+          (SELECT COALESCE(SUM(size), 0) FROM (
+             SELECT DISTINCT content, size FROM snapshot_nodes
+             WHERE type = 'binary' AND content IS NOT NULL
+               AND content NOT IN live_binaries
+           )) as bytes
+      `,
+      )
+      .one() as { bytes: number };
+    return bytes;
+  }
+
+  private quotaSetting(subject: string): number | null {
+    const row = this.sql
+      .exec(`SELECT max_bytes FROM quotas WHERE subject = ?`, subject)
+      .toArray()[0] as { max_bytes: number } | undefined;
+    return row ? row.max_bytes : null;
+  }
+
+  // The operator's limit, or the user's own lower cap
+  private operatorQuota(): number {
+    const bytes = Number(this.env.STORAGE_QUOTA_BYTES);
+    return Number.isFinite(bytes) && bytes > 0
+      ? bytes
+      : DEFAULT_STORAGE_QUOTA_BYTES;
+  }
+
+  private userQuota(): number {
+    const own = this.quotaSetting("user");
+    return own === null
+      ? this.operatorQuota()
+      : Math.min(own, this.operatorQuota());
+  }
+
+  // A client's own limit, the default client limit, or null for none
+  private clientQuota(clientId: string): number | null {
+    const own = this.quotaSetting(`client:${clientId}`);
+    if (own !== null) return own;
+    const bytes = Number(this.env.CLIENT_QUOTA_BYTES);
+    return Number.isFinite(bytes) && bytes > 0 ? bytes : null;
+  }
+
+  /**
+   * Quotas can only be changed, and all clients seen, by the user through
+   * the pod itself, not by third-party apps
+   */
+  private isOwnerClient(clientId: string | null): boolean {
+    return clientId === null || clientId === this.env.SELF_CLIENT_ID;
+  }
+
+  /**
+   * Storage used and remaining, overall and per client
+   */
+  getQuota(clientId: string | null = null): {
+    used: number;
+    limit: number;
+    remaining: number;
+    clients: {
+      clientId: string | null;
+      used: number;
+      limit: number | null;
+      remaining: number | null;
+    }[];
+  } {
+    const used = this.storageUsed();
+    const limit = this.userQuota();
+
+    const usage = this.sql
+      .exec(
+        `
+        SELECT updated_by as client_id, SUM(size) as used FROM (
+          SELECT updated_by, size FROM nodes
+          UNION ALL
+          SELECT updated_by, size FROM trash
+        )
+        GROUP BY updated_by
+        UNION
+        SELECT substr(subject, 8), 0 FROM quotas
+        WHERE subject LIKE 'client:%'
+        AND substr(subject, 8) NOT IN (
+          SELECT updated_by FROM nodes WHERE updated_by IS NOT NULL
+          UNION
+          SELECT updated_by FROM trash WHERE updated_by IS NOT NULL
+        )
+        ORDER BY used DESC
+      `,
+      )
+      .toArray() as { client_id: string | null; used: number }[];
+
+    const clients = usage
+      .filter(
+        (row) => this.isOwnerClient(clientId) || row.client_id === clientId,
+      )
+      .map((row) => {
+        const clientLimit = row.client_id
+          ? this.clientQuota(row.client_id)
+          : null;
+        return {
+          clientId: row.client_id,
+          used: row.used,
+          limit: clientLimit,
+          remaining:
+            clientLimit === null ? null : Math.max(0, clientLimit - row.used),
+        };
+      });
+
+    return { used, limit, remaining: Math.max(0, limit - used), clients };
+  }
+
+  /**
+   * Set the user's own storage cap (without targetClientId) or a client's
+   * limit. A null limit goes back to the default.
+   */
+  setQuota(
+    callerClientId: string | null,
+    targetClientId: string | null,
+    maxBytes: number | null,
+  ): void {
+    if (!this.isOwnerClient(callerClientId)) {
+      throw new Error("Quotas can only be changed by the pod owner");
+    }
+    if (
+      maxBytes !== null &&
+      (!Number.isInteger(maxBytes) || (maxBytes as number) < 0)
+    ) {
+      throw new Error("maxBytes must be a non-negative integer or null");
+    }
+
+    const subject = targetClientId ? `client:${targetClientId}` : "user";
+    if (maxBytes === null) {
+      this.sql.exec(`DELETE FROM quotas WHERE subject = ?`, subject);
+    } else {
+      this.sql.exec(
+        `INSERT OR REPLACE INTO quotas (subject, max_bytes) VALUES (?, ?)`,
+        subject,
+        maxBytes,
+      );
+    }
+  }
+
+  // ==================== METADATA ====================
+
+  /**
+   * Get the MIME type and metadata of a node, or null if it doesn't exist
+   */
+  getMetadata(
+    path: string,
+  ): { mime_type: string | null; metadata: Record<string, unknown> } | null {
+    const node = this.sql
+      .exec(`SELECT mime_type FROM nodes WHERE path = ?`, path)
+      .toArray()[0] as { mime_type: string | null } | undefined;
+
+    if (!node) return null;
+
+    const metadata: Record<string, unknown> = {};
+    const rows = this.sql
+      .exec(
+        `SELECT key, value FROM node_metadata WHERE path = ? ORDER BY key`,
+        path,
+      )
+      .toArray() as { key: string; value: string }[];
+    for (const row of rows) {
+      metadata[row.key] = JSON.parse(row.value);
+    }
+
+    return { mime_type: node.mime_type, metadata };
+  }
+
+  /**
+   * Set metadata keys on a node (other keys are kept), and optionally
+   * override its MIME type.
+   */
+  setMetadata(
+    path: string,
+    metadata: Record<string, unknown>,
+    mimeType?: string,
+  ): void {
+    const node = this.sql
+      .exec(`SELECT type FROM nodes WHERE path = ?`, path)
+      .toArray()[0] as { type: string } | undefined;
+
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    if (typeof metadata !== "object" || metadata === null) {
+      throw new Error("metadata must be an object");
+    }
+
+    const entries = Object.entries(metadata).map(([key, value]) => {
+      if (!key || key.length > MAX_METADATA_KEY_LENGTH) {
+        throw new Error(
+          `Metadata keys must be 1-${MAX_METADATA_KEY_LENGTH} characters`,
+        );
+      }
+      const json = JSON.stringify(value);
+      if (json === undefined) {
+        throw new Error(`Metadata value for "${key}" is not valid JSON`);
+      }
+      if (json.length > MAX_METADATA_VALUE_LENGTH) {
+        throw new Error(`Metadata value for "${key}" is too large`);
+      }
+      return [key, json];
+    });
+
+    if (mimeType !== undefined) {
+      if (node.type === "folder") {
+        throw new Error("Folders have no MIME type");
+      }
+      if (!/^[\w.+-]+\/[\w.+-]+$/.test(parseMimeType(mimeType))) {
+        throw new Error("Invalid MIME type");
+      }
+    }
+
+    this.transaction(() => {
+      for (const [key, json] of entries) {
+        this.sql.exec(
+          `INSERT OR REPLACE INTO node_metadata (path, key, value) VALUES (?, ?, ?)`,
+          path,
+          key,
+          json,
+        );
+      }
+      if (mimeType !== undefined) {
+        this.sql.exec(
+          `UPDATE nodes SET mime_type = ? WHERE path = ?`,
+          parseMimeType(mimeType),
+          path,
+        );
+      }
+    });
+  }
+
+  /**
+   * Remove metadata keys from a node. Returns the number of removed keys.
+   */
+  deleteMetadata(path: string, keys: string[]): number {
+    const node = this.sql
+      .exec(`SELECT id FROM nodes WHERE path = ?`, path)
+      .toArray()[0];
+
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    let removed = 0;
+    for (const key of keys) {
+      removed += this.sql.exec(
+        `DELETE FROM node_metadata WHERE path = ? AND key = ?`,
+        path,
+        key,
+      ).rowsWritten;
+    }
+    return removed;
+  }
+
+  // ==================== LINKS ====================
+
+  /**
+   * Create a link at path pointing at target (a full path). The target
+   * doesn't have to exist yet, but links forming a cycle are rejected.
+   */
+  createLink(path: string, target: string): void {
+    if (target === path || target.startsWith(path + "/")) {
+      throw new Error("A link cannot point at itself or inside itself");
+    }
+
+    const existing = this.sql
+      .exec(`SELECT id FROM nodes WHERE path = ?`, path)
+      .toArray()[0];
+    if (existing) {
+      throw new Error("File already exists");
+    }
+
+    this.transaction(() => {
+      this.ensureParentFolders(path);
+      const { name, parent_path } = this.parsePathComponents(path);
+      this.sql.exec(
+        `
+        INSERT INTO nodes (path, name, parent_path, type, size, content)
+        VALUES (?, ?, ?, 'link', 0, ?)
+      `,
+        path,
+        name,
+        parent_path,
+        target,
+      );
+
+      // Throws (and rolls back) when the new link closes a cycle
+      this.resolveLinks(path);
+    });
+  }
+
+  /**
+   * Check links copied or moved to rootPath the same way createLink does.
+   * Throws when one points into itself or now closes a cycle.
+   */
+  private checkLinks(rootPath: string): void {
+    const links = this.sql
+      .exec(
+        `SELECT path, content FROM nodes WHERE type = 'link' AND ${subtreeSQL()}`,
+        rootPath,
+        rootPath,
+        rootPath,
+      )
+      .toArray() as { path: string; content: string }[];
+
+    for (const link of links) {
+      if (
+        link.content === link.path ||
+        link.content.startsWith(link.path + "/")
+      ) {
+        throw new Error("A link cannot point at itself or inside itself");
+      }
+      this.resolveLinks(link.path);
+    }
+  }
+
+  /**
+   * Follow links in path, both the node itself and any of its ancestors,
+   * until it points at a path without links.
+   */
+  resolveLinks(path: string): string {
+    let resolved = path;
+    for (let hops = 0; hops <= MAX_LINK_HOPS; hops++) {
+      const link = this.sql
+        .exec(
+          `
+          SELECT path, content FROM nodes
+          WHERE type = 'link'
+          AND (path = ? OR substr(?, 1, length(path) + 1) = path || '/')
+          LIMIT 1
+        `,
+          resolved,
+          resolved,
+        )
+        .toArray()[0] as { path: string; content: string } | undefined;
+
+      if (!link) return resolved;
+      resolved = link.content + resolved.slice(link.path.length);
+    }
+    throw new Error("Too many levels of links");
+  }
+
+  /**
+   * Resolve links in path and check the caller may read where they lead,
+   * so a link can't expose data outside the caller's scopes.
+   */
+  resolveReadable(
+    username: string,
+    path: string,
+    scopes: string[] | null,
+  ): string {
+    const resolved = this.resolveLinks(path);
+    if (resolved !== path && !this.canRead(username, scopes, resolved)) {
+      throw new Error("Insufficient permissions for link target");
+    }
+    return resolved;
+  }
+
+  private canRead(
+    username: string,
+    scopes: string[] | null,
+    path: string,
+  ): boolean {
+    return this.canAccess(username, scopes, "read", path);
+  }
+
+  private canAccess(
+    username: string,
+    scopes: string[] | null,
+    action: ScopeAction,
+    path: string,
+  ): boolean {
+    if (scopes === null) return true;
+    return scopeMatches(scopes, `${action}:${scopeResource(path, username)}`);
+  }
+
+  /**
+   * Central scope check for API endpoints, on canonical paths. Returns a
+   * 403 response when the scopes don't cover every path the request uses.
+   */
+  private checkAPIAccess(
+    endpoint: string,
+    data: any,
+    username: string,
+    scopes: string[] | null,
+  ): Response | null {
+    const access = API_ACCESS[endpoint];
+    if (!access || scopes === null) return null;
+
+    for (const [action, path] of access(data)) {
+      const fullPath = userPath(path ?? "/", username);
+      if (!this.canAccess(username, scopes, action, fullPath)) {
+        return new Response(
+          JSON.stringify({ error: "Insufficient permissions", path: fullPath }),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Subtrees to search for a path: the path itself with links resolved, plus
+   * the targets of links inside it, each with the path it's reached through.
+   * Links inside link targets aren't followed, so cycles can't recurse.
+   */
+  private searchRoots(
+    username: string,
+    searchPath: string,
+    scopes: string[] | null,
+  ): { path: string; target: string }[] {
+    let target: string;
+    try {
+      target = this.resolveReadable(username, searchPath, scopes);
+    } catch {
+      return [];
+    }
+
+    const roots = [{ path: searchPath, target }];
+    const links = this.sql
+      .exec(
+        `
+        SELECT path, content FROM nodes
+        WHERE type = 'link' AND ${subtreeSQL()}
+      `,
+        target,
+        target,
+        target,
+      )
+      .toArray() as { path: string; content: string }[];
+
+    for (const link of links) {
+      try {
+        const linkTarget = this.resolveLinks(link.content);
+        if (!this.canRead(username, scopes, linkTarget)) continue;
+        roots.push({
+          path: searchPath + link.path.slice(target.length),
+          target: linkTarget,
+        });
+      } catch {
+        // Part of a link cycle; skip it
+      }
+    }
+
+    return roots;
+  }
+
+  // ==================== BATCH ====================
+
+  /**
+   * Paths an operation reads and writes, used for scope checks.
+   * Returns full paths.
+   */
+  private batchOperationAccess(
+    username: string,
+    operation: BatchOperation,
+  ): { action: ScopeAction; path: string }[] {
+    const full = (path: string | undefined) => {
+      if (!path) throw new Error("Missing path");
+      return userPath(path, username);
+    };
+
+    switch (operation.op) {
+      case "move":
+        return [
+          { action: "write", path: full(operation.sourcePath) },
+          { action: "write", path: full(operation.targetPath) },
+        ];
+      case "copy":
+        return [
+          { action: "read", path: full(operation.sourcePath) },
+          { action: "write", path: full(operation.targetPath) },
+        ];
+      case "rename": {
+        const path = full(operation.path);
+        if (typeof operation.newName !== "string") {
+          throw new Error("Missing newName");
+        }
+        // A name with `/` would point the scope check at another path
+        validateName(operation.newName);
+        const newPath = path.replace(/[^/]*$/, operation.newName);
+        return [
+          { action: "write", path },
+          { action: "write", path: newPath },
+        ];
+      }
+      case "create-link":
+        return [
+          { action: "write", path: full(operation.path) },
+          { action: "read", path: full(operation.target) },
+        ];
+      case "append":
+        return [{ action: "append", path: full(operation.path) }];
+      default:
+        return [{ action: "write", path: full(operation.path) }];
+    }
+  }
+
+  private runBatchOperation(
+    username: string,
+    clientId: string | null,
+    operation: BatchOperation,
+  ): { change: FileChange; trashId?: string | null } {
+    const full = (path: string | undefined) =>
+      userPath(path as string, username);
+
+    switch (operation.op) {
+      case "write": {
+        const path = full(operation.path);
+        this.saveContent(
+          path,
+          operation.content ?? "",
+          clientId,
+          operation.mimeType || null,
+        );
+        return { change: { action: "update", path } };
+      }
+      case "create-file": {
+        const path = full(operation.path);
+        this.createFile(
+          path,
+          operation.content ?? "",
+          clientId,
+          operation.mimeType || null,
+        );
+        return { change: { action: "create", path } };
+      }
+      case "create-folder": {
+        const path = full(operation.path);
+        this.createFolder(path);
+        return { change: { action: "create", path } };
+      }
+      case "create-link": {
+        const path = full(operation.path);
+        this.createLink(path, full(operation.target));
+        return { change: { action: "create", path } };
+      }
+      case "append": {
+        const path = full(operation.path);
+        this.appendContent(path, operation.content ?? "", clientId);
+        return { change: { action: "update", path } };
+      }
+      case "delete": {
+        const path = full(operation.path);
+        const trashId = this.deleteNode(path);
+        if (!trashId) throw new Error("Node not found");
+        return { change: { action: "delete", path }, trashId };
+      }
+      case "move": {
+        const oldPath = full(operation.sourcePath);
+        const path = full(operation.targetPath);
+        const trashId = this.moveNode(oldPath, path, operation.mode);
+        return { change: { action: "move", path, oldPath }, trashId };
+      }
+      case "copy": {
+        const path = full(operation.targetPath);
+        const trashId = this.copyNode(
+          full(operation.sourcePath),
+          path,
+          operation.mode,
+          clientId,
+        );
+        return { change: { action: "copy", path }, trashId };
+      }
+      case "rename": {
+        const oldPath = full(operation.path);
+        const newName = operation.newName ?? "";
+        this.renameNode(oldPath, newName);
+        const path = oldPath.replace(/[^/]*$/, newName);
+        return { change: { action: "rename", path, oldPath } };
+      }
+      case "set-metadata": {
+        const path = full(operation.path);
+        this.setMetadata(path, operation.metadata ?? {}, operation.mimeType);
+        return { change: { action: "update", path } };
+      }
+      case "delete-metadata": {
+        const path = full(operation.path);
+        this.deleteMetadata(path, operation.keys ?? []);
+        return { change: { action: "update", path } };
+      }
+      case "tag":
+      case "untag": {
+        const path = full(operation.path);
+        const tags = this.normalizeTags(operation.tags);
+        if (operation.op === "tag") {
+          this.tagNode(path, tags);
+        } else {
+          this.untagNode(path, tags);
+        }
+        return { change: { action: "update", path } };
+      }
+      default:
+        throw new Error(
+          `Unknown operation: ${(operation as { op: unknown }).op}`,
+        );
+    }
+  }
+
+  /**
+   * Run operations in order inside one transaction. If any operation fails
+   * (or isn't covered by the caller's scopes) nothing is applied.
+   */
+  runBatch(
+    username: string,
+    operations: BatchOperation[],
+    clientId: string | null = null,
+    scopes: string[] | null = null,
+    lockToken: string | null = null,
+  ): {
+    success: boolean;
+    status: number;
+    results: BatchResult[];
+    changes: FileChange[];
+  } {
+    const results: BatchResult[] = operations.map((operation, index) => ({
+      index,
+      op: String(operation?.op),
+      status: "skipped",
+    }));
+
+    // Check every operation's scopes and locks before touching anything
+    for (const [index, operation] of operations.entries()) {
+      let denied: string | undefined;
+      try {
+        const accesses = this.batchOperationAccess(username, operation);
+        denied = accesses.find(
+          (access) =>
+            !this.canAccess(username, scopes, access.action, access.path),
+        )?.path;
+        if (!denied) {
+          this.assertUnlocked(
+            lockToken,
+            ...accesses
+              .filter((access) => access.action !== "read")
+              .map((access) => access.path),
+          );
+        }
+      } catch (error) {
+        results[index] = {
+          ...results[index],
+          status: "failed",
+          error: (error as Error).message,
+          ...errorDetails(error),
+        };
+        return {
+          success: false,
+          status: errorStatus(error),
+          results,
+          changes: [],
+        };
+      }
+      if (denied) {
+        results[index] = {
+          ...results[index],
+          status: "failed",
+          error: `Insufficient permissions for ${denied}`,
+        };
+        return { success: false, status: 403, results, changes: [] };
+      }
+    }
+
+    const changes: FileChange[] = [];
+    try {
+      this.transaction(() => {
+        for (const [index, operation] of operations.entries()) {
+          try {
+            const { change, trashId } = this.runBatchOperation(
+              username,
+              clientId,
+              operation,
+            );
+            changes.push(change);
+            results[index] = {
+              ...results[index],
+              status: "ok",
+              path: change.path,
+              ...(trashId && { trashId }),
+            };
+          } catch (error) {
+            results[index] = {
+              ...results[index],
+              status: "failed",
+              error: (error as Error).message,
+              ...errorDetails(error),
+            };
+            throw error;
+          }
+        }
+      });
+    } catch (error) {
+      for (const result of results) {
+        if (result.status === "ok") {
+          result.status = "rolled_back";
+          delete result.trashId;
+        }
+      }
+      return {
+        success: false,
+        status: errorStatus(error),
+        results,
+        changes: [],
+      };
+    }
+
+    return { success: true, status: 200, results, changes };
+  }
+
+  // ==================== TAGS ====================
+
+  /**
+   * Trim and validate tags given as a string or an array of strings
+   */
+  normalizeTags(tags: unknown): string[] {
+    const list = typeof tags === "string" ? [tags] : tags;
+    if (!Array.isArray(list)) {
+      throw new Error("tags must be a string or an array of strings");
+    }
+
+    const normalized = new Set<string>();
+    for (const tag of list) {
+      if (typeof tag !== "string") {
+        throw new Error("tags must be a string or an array of strings");
+      }
+      const trimmed = tag.trim();
+      if (!trimmed || trimmed.length > MAX_TAG_LENGTH) {
+        throw new Error(`Tags must be 1-${MAX_TAG_LENGTH} characters`);
+      }
+      if (/[\x00-\x1f\x7f]/.test(trimmed)) {
+        throw new Error("Tags cannot contain control characters");
+      }
+      normalized.add(trimmed);
+    }
+    return [...normalized];
+  }
+
+  /**
+   * SQL condition keeping rows whose path has all given tags.
+   * Expects the tags followed by the tag count as parameters.
+   */
+  private tagFilterSQL(column: string, tags: string[]): string {
+    const placeholders = tags.map(() => "?").join(", ");
+    return ` AND ${column} IN (
+      SELECT path FROM node_tags WHERE tag IN (${placeholders})
+      GROUP BY path HAVING COUNT(*) = ?
+    )`;
+  }
+
+  /**
+   * Add tags to a node. Returns the node's tags afterwards.
+   */
+  tagNode(path: string, tags: string[]): string[] {
+    const node = this.sql
+      .exec(`SELECT id FROM nodes WHERE path = ?`, path)
+      .toArray()[0];
+
+    if (!node) {
+      throw new Error("Node not found");
+    }
+
+    for (const tag of tags) {
+      this.sql.exec(
+        `INSERT OR IGNORE INTO node_tags (path, tag) VALUES (?, ?)`,
+        path,
+        tag,
+      );
+    }
+    return this.getNodeTags(path);
+  }
+
+  /**
+   * Remove tags from a node. Returns the node's tags afterwards.
+   */
+  untagNode(path: string, tags: string[]): string[] {
+    for (const tag of tags) {
+      this.sql.exec(
+        `DELETE FROM node_tags WHERE path = ? AND tag = ?`,
+        path,
+        tag,
+      );
+    }
+    return this.getNodeTags(path);
+  }
+
+  getNodeTags(path: string): string[] {
+    return this.sql
+      .exec(`SELECT tag FROM node_tags WHERE path = ? ORDER BY tag`, path)
+      .toArray()
+      .map((row) => row.tag as string);
+  }
+
+  /**
+   * List all tags used under a path with the number of tagged nodes
+   */
+  listTags(username: string, path?: string): { tag: string; count: number }[] {
+    const searchPath = userPath(path ?? "/", username);
+
+    return this.sql
+      .exec(
+        `
+        SELECT tag, COUNT(*) as count FROM node_tags
+        WHERE ${subtreeSQL()}
+        GROUP BY tag
+        ORDER BY count DESC, tag ASC
+      `,
+        searchPath,
+        searchPath,
+        searchPath,
+      )
+      .toArray() as { tag: string; count: number }[];
+  }
+
+  // ==================== BLOB STORAGE ====================
+
+  /**
+   * Store text once under its SHA-256 and return the hash. A new blob has
+   * no references until some row points at it, and is collected when the
+   * transaction ends if none does.
+   */
+  private storeBlob(content: string): string {
+    const hash = sha256Hex(content);
+    if (this.blobExists(hash)) return hash;
+
+    const chunks = content.length > CHUNK_SIZE ? splitChunks(content) : [];
+    this.sql.exec(
+      `INSERT INTO blobs (hash, size, chunks, content) VALUES (?, ?, ?, ?)`,
+      hash,
+      utf8ByteLength(content),
+      chunks.length,
+      chunks.length > 0 ? null : content,
+    );
+    this.insertChunks(hash, 0, chunks);
+    return hash;
+  }
+
+  /**
+   * Store the blob for the content of hash followed by text, and return its
+   * hash. For a chunked blob the hash is resumed from the state saved with
+   * it and only the last chunk is rewritten: the new blob shares every
+   * earlier chunk, so its cost doesn't grow with the file.
+   */
+  private appendBlob(hash: string | null, text: string): string {
+    const blob = (
+      hash
+        ? this.sql
+            .exec(
+              `SELECT size, chunks, content, sha256_state FROM blobs WHERE hash = ?`,
+              hash,
+            )
+            .toArray()[0]
+        : undefined
+    ) as
+      | {
+          size: number;
+          chunks: number;
+          content: string | null;
+          sha256_state: string | null;
+        }
+      | undefined;
+
+    if (!hash || !blob || !blob.chunks) {
+      return this.storeBlob((blob?.content || "") + text);
+    }
+
+    // Blobs stored whole save no state; hash them once on the first append
+    let digest: ResumableSha256;
+    if (blob.sha256_state) {
+      digest = new ResumableSha256(blob.sha256_state);
+    } else {
+      digest = new ResumableSha256();
+      for (const chunk of this.iterateChunks(hash, blob.chunks)) {
+        digest.update(chunk);
+      }
+    }
+    digest.update(text);
+    const appended = digest.digest();
+    if (this.blobExists(appended)) return appended;
+
+    const last = this.readChunk(hash, blob.chunks - 1);
+    const pieces = splitChunks(last + text);
+    this.sql.exec(
+      `INSERT INTO blobs (hash, size, chunks, content, sha256_state) VALUES (?, ?, ?, NULL, ?)`,
+      appended,
+      blob.size + utf8ByteLength(text),
+      blob.chunks - 1 + pieces.length,
+      digest.save(),
+    );
+    this.sql.exec(
+      `
+      INSERT INTO blob_chunk_refs (hash, idx, bytes, chunk)
+      SELECT ?, idx, bytes, chunk FROM blob_chunk_refs WHERE hash = ? AND idx < ?
+    `,
+      appended,
+      hash,
+      blob.chunks - 1,
+    );
+    this.insertChunks(appended, blob.chunks - 1, pieces);
+    return appended;
+  }
+
+  private blobExists(hash: string): boolean {
+    return (
+      this.sql.exec(`SELECT 1 FROM blobs WHERE hash = ?`, hash).toArray()
+        .length > 0
+    );
+  }
+
+  private insertChunks(hash: string, start: number, chunks: string[]): void {
+    chunks.forEach((chunk, i) => {
+      const { id } = this.sql
+        .exec(
+          `INSERT INTO chunk_texts (content) VALUES (?) RETURNING id`,
+          chunk,
+        )
+        .one() as { id: number };
+      this.sql.exec(
+        `INSERT INTO blob_chunk_refs (hash, idx, bytes, chunk) VALUES (?, ?, ?, ?)`,
+        hash,
+        start + i,
+        utf8ByteLength(chunk),
+        id,
+      );
+    });
+  }
+
+  // Text of chunk idx of a chunked blob
+  private readChunk(hash: string, idx: number): string {
+    const row = this.sql
+      .exec(
+        `SELECT t.content FROM blob_chunk_refs c
+         JOIN chunk_texts t ON t.id = c.chunk
+         WHERE c.hash = ? AND c.idx = ?`,
+        hash,
+        idx,
+      )
+      .toArray()[0];
+    return (row?.content as string) || "";
+  }
+
+  // Delete blobs that nothing refers to any more, and chunks only they used
+  private collectBlobs(): void {
+    this.sql.exec(`
+      DELETE FROM chunk_texts WHERE id IN (
+        SELECT c.chunk FROM blob_chunk_refs c
+        JOIN blobs b ON b.hash = c.hash WHERE b.refs <= 0
+      ) AND NOT EXISTS (
+        SELECT 1 FROM blob_chunk_refs c
+        JOIN blobs b ON b.hash = c.hash
+        WHERE c.chunk = chunk_texts.id AND b.refs > 0
+      )
+    `);
+    this.sql.exec(
+      `DELETE FROM blob_chunk_refs WHERE hash IN (SELECT hash FROM blobs WHERE refs <= 0)`,
+    );
+    this.sql.exec(`DELETE FROM blobs WHERE refs <= 0`);
+  }
+
+  /**
+   * Full text of a blob, whether stored inline or in chunks
+   */
+  private readBlob(hash: string | null): string {
+    const blob = (
+      hash
+        ? this.sql
+            .exec(`SELECT content, chunks FROM blobs WHERE hash = ?`, hash)
+            .toArray()[0]
+        : undefined
+    ) as { content: string | null; chunks: number } | undefined;
+
+    if (!hash || !blob) return "";
+    if (!blob.chunks) return blob.content || "";
+
+    return [...this.iterateChunks(hash, blob.chunks)].join("");
+  }
+
+  // The blob holding the content of the text file at path
+  private fileBlob(
+    path: string,
+  ): { hash: string; content: string | null; chunks: number } | undefined {
+    return this.sql
+      .exec(
+        `SELECT b.hash, b.content, b.chunks FROM nodes n
+         JOIN blobs b ON b.hash = n.hash
+         WHERE n.path = ? AND n.type = 'file'`,
+        path,
+      )
+      .toArray()[0] as
+      { hash: string; content: string | null; chunks: number } | undefined;
+  }
+
+  /**
+   * Full text of a file. Returns null if there is no file at path.
+   */
+  readContent(path: string): string | null {
+    const node = this.sql
+      .exec(`SELECT hash FROM nodes WHERE path = ? AND type = 'file'`, path)
+      .toArray()[0] as { hash: string | null } | undefined;
+
+    if (!node) return null;
+    return this.readBlob(node.hash);
+  }
+
+  /**
+   * Yield chunks one row at a time, so callers can stop early. Forward
+   * iteration can begin at chunk start.
+   */
+  private *iterateChunks(
+    hash: string,
+    count: number,
+    reverse: boolean = false,
+    start: number = 0,
+  ): Generator<string> {
+    for (let i = start; i < count; i++) {
+      yield this.readChunk(hash, reverse ? count - 1 - i : i);
+    }
+  }
+
+  /**
+   * Read only the leading or trailing chunks needed for a head/tail request
+   */
+  private readChunksFor(
+    hash: string,
+    count: number,
+    options: { head?: number; tail?: number; lines?: boolean },
+  ): string {
+    const { head, tail, lines = true } = options;
+    const fromEnd = head === undefined;
+    const wanted = fromEnd ? tail : head;
+
+    if (wanted === undefined || (fromEnd && wanted <= 0)) {
+      return [...this.iterateChunks(hash, count)].join("");
+    }
+
+    let text = "";
+    let have = 0;
+    for (const chunk of this.iterateChunks(hash, count, fromEnd)) {
+      text = fromEnd ? chunk + text : text + chunk;
+      have += lines ? chunk.split("\n").length - 1 : utf8ByteLength(chunk);
+      if (have >= wanted) break;
+    }
+    return text;
+  }
+
+  /**
+   * UTF-8 bytes start..end (inclusive) of a file, reading only the chunks
+   * that overlap the range. Returns null if there is no file at path.
+   */
+  readByteRange(
+    path: string,
+    range: { start: number; end: number },
+  ): Uint8Array | null {
+    const blob = this.fileBlob(path);
+    if (!blob) return null;
+
+    const encoder = new TextEncoder();
+    if (!blob.chunks) {
+      return encoder
+        .encode(blob.content || "")
+        .slice(range.start, range.end + 1);
+    }
+
+    const chunks = this.sql
+      .exec(
+        `SELECT idx, bytes FROM blob_chunk_refs WHERE hash = ? ORDER BY idx`,
+        blob.hash,
+      )
+      .toArray() as { idx: number; bytes: number }[];
+
+    const parts: Uint8Array[] = [];
+    let offset = 0;
+    for (const chunk of chunks) {
+      const chunkEnd = offset + chunk.bytes - 1;
+      if (chunkEnd >= range.start && offset <= range.end) {
+        const content = this.readChunk(blob.hash, chunk.idx);
+        parts.push(
+          encoder
+            .encode(content)
+            .slice(
+              Math.max(0, range.start - offset),
+              Math.min(chunk.bytes, range.end - offset + 1),
+            ),
+        );
+      }
+      offset += chunk.bytes;
+      if (offset > range.end) break;
+    }
+
+    const result = new Uint8Array(
+      parts.reduce((total, part) => total + part.length, 0),
+    );
+    let position = 0;
+    for (const part of parts) {
+      result.set(part, position);
+      position += part.length;
+    }
+    return result;
+  }
+
+  /**
+   * Size of a file in UTF-8 bytes, as used for HTTP ranges
+   */
+  private fileByteLength(path: string): number {
+    const blob = this.fileBlob(path);
+    if (!blob) return 0;
+    if (!blob.chunks) return utf8ByteLength(blob.content || "");
+
+    const total = this.sql
+      .exec(
+        `SELECT COALESCE(SUM(bytes), 0) as bytes FROM blob_chunk_refs WHERE hash = ?`,
+        blob.hash,
+      )
+      .toArray()[0] as { bytes: number };
+    return total.bytes;
+  }
+
+  // ==================== REVISION HISTORY ====================
+
+  /**
+   * Keep the current content of a file before it gets overwritten. The
+   * revision shares the file's blob, chunks included.
+   */
+  private recordRevision(path: string, replacedAt: number): void {
+    const current = this.sql
+      .exec(
+        `SELECT hash, size, updated_at, updated_by FROM nodes WHERE path = ? AND type = 'file'`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          hash: string | null;
+          size: number;
+          updated_at: number;
+          updated_by: string | null;
+        }
+      | undefined;
+
+    if (!current) return;
+
+    this.sql.exec(
+      `
+      INSERT INTO revisions (path, hash, size, created_at, replaced_at, client_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+      path,
+      current.hash,
+      current.size,
+      current.updated_at,
+      replacedAt,
+      current.updated_by,
+    );
+
+    this.sql.exec(
+      `
+      DELETE FROM revisions WHERE path = ? AND id NOT IN (
+        SELECT id FROM revisions WHERE path = ? ORDER BY id DESC LIMIT ?
+      )
+    `,
+      path,
+      path,
+      MAX_REVISIONS_PER_FILE,
+    );
+  }
+
+  /**
+   * List prior versions of a file, newest first
+   */
+  getHistory(
+    path: string,
+    limit: number = 50,
+  ): {
+    current: Omit<Revision, "id" | "replaced_at"> | null;
+    revisions: Revision[];
+  } {
+    const current = this.sql
+      .exec(
+        `SELECT path, size, updated_at as created_at, updated_by as client_id
+         FROM nodes WHERE path = ? AND type = 'file'`,
+        path,
+      )
+      .toArray()[0] as Omit<Revision, "id" | "replaced_at"> | undefined;
+
+    const revisions = this.sql
+      .exec(
+        `SELECT id, path, size, created_at, replaced_at, client_id
+         FROM revisions WHERE path = ?
+         ORDER BY id DESC LIMIT ?`,
+        path,
+        limit,
+      )
+      .toArray() as unknown as Revision[];
+
+    return { current: current || null, revisions };
+  }
+
+  /**
+   * Get the content of a single revision, or of the current file for "current"
+   */
+  getRevisionContent(path: string, revision: number | "current"): string {
+    if (revision === "current") {
+      const content = this.readContent(path);
+      if (content === null) {
+        throw new Error("Revision not found");
+      }
+      return content;
+    }
+
+    const result = this.sql
+      .exec(
+        `SELECT hash FROM revisions WHERE path = ? AND id = ?`,
+        path,
+        revision,
+      )
+      .toArray()[0] as { hash: string | null } | undefined;
+
+    if (!result) {
+      throw new Error("Revision not found");
+    }
+
+    return this.readBlob(result.hash);
+  }
+
+  /**
+   * Find the file content as it was at the given Unix timestamp
+   */
+  readAt(
+    path: string,
+    at: number,
+  ): {
+    content: string;
+    size: number;
+    updated_at: number;
+    revision: number | null;
+  } | null {
+    const current = this.sql
+      .exec(
+        `SELECT hash, size, updated_at FROM nodes WHERE path = ? AND type = 'file'`,
+        path,
+      )
+      .toArray()[0] as
+      { hash: string | null; size: number; updated_at: number } | undefined;
+
+    if (current && current.updated_at <= at) {
+      return {
+        content: this.readBlob(current.hash),
+        size: current.size,
+        updated_at: current.updated_at,
+        revision: null,
+      };
+    }
+
+    const revision = this.sql
+      .exec(
+        `SELECT id, hash, size, created_at FROM revisions
+         WHERE path = ? AND created_at <= ? AND replaced_at > ?
+         ORDER BY id DESC LIMIT 1`,
+        path,
+        at,
+        at,
+      )
+      .toArray()[0] as
+      | { id: number; hash: string | null; size: number; created_at: number }
+      | undefined;
+
+    if (!revision) return null;
+
+    return {
+      content: this.readBlob(revision.hash),
+      size: revision.size,
+      updated_at: revision.created_at,
+      revision: revision.id,
+    };
+  }
+
+  /**
+   * Diff two versions of a file. Defaults to latest revision vs current.
+   */
+  diffRevisions(
+    path: string,
+    from?: number | "current",
+    to: number | "current" = "current",
+  ): string {
+    let fromRevision = from;
+    if (fromRevision === undefined) {
+      const latest = this.sql
+        .exec(
+          `SELECT id FROM revisions WHERE path = ? ORDER BY id DESC LIMIT 1`,
+          path,
+        )
+        .toArray()[0] as { id: number } | undefined;
+      if (!latest) {
+        throw new Error("No revisions found");
+      }
+      fromRevision = latest.id;
+    }
+
+    return unifiedDiff(
+      this.getRevisionContent(path, fromRevision),
+      this.getRevisionContent(path, to),
+      {
+        oldLabel: `${path}@${fromRevision}`,
+        newLabel: `${path}@${to}`,
+      },
+    );
+  }
+
+  /**
+   * Restore a file to a revision id, or to its state at a timestamp.
+   * The content being replaced is itself kept as a revision.
+   */
+  restoreRevision(
+    path: string,
+    target: { revision?: number; at?: number },
+    clientId: string | null = null,
+  ): string {
+    let content: string;
+    if (target.revision !== undefined) {
+      content = this.getRevisionContent(path, target.revision);
+    } else if (target.at !== undefined) {
+      const version = this.readAt(path, target.at);
+      if (!version) {
+        throw new Error("No revision found at that time");
+      }
+      content = version.content;
+    } else {
+      throw new Error("Either revision or at is required");
+    }
+
+    this.saveContent(path, content, clientId);
+    return content;
+  }
+
+  getVisibleNodes(expandedPaths: string[], username: string): FileNode[] {
+    let visibleCondition = `parent_path IS NULL OR parent_path = '/${username}'`;
+    let params = [`/${username}`, `/${username}`, `/${username}`];
+
+    if (expandedPaths.length > 0) {
+      const expandedPlaceholders = expandedPaths.map(() => "?").join(",");
+      visibleCondition += ` OR parent_path IN (${expandedPlaceholders})`;
+      params.push(...expandedPaths);
+    }
+
+    const query = `
+      SELECT id, path, name, parent_path, type, size, created_at, updated_at,
+        CASE WHEN type = 'file' THEN (SELECT content FROM blobs WHERE hash = nodes.hash)
+          ELSE content END as content
+      FROM nodes 
+      WHERE ${subtreeSQL()} AND (${visibleCondition})
+      ORDER BY parent_path, type DESC, name ASC
+    `;
+
+    const nodes = this.sql.exec<FileNode>(query, ...params).toArray();
+    return nodes;
+  }
+
+  generateLlmsTxt(username: string): string {
+    const files = this.sql
+      .exec(
+        `
+      SELECT path, created_at, updated_at FROM nodes 
+      WHERE ${subtreeSQL()} AND path != ? AND type = 'file'
+    `,
+        `/${username}`,
+        `/${username}`,
+        `/${username}`,
+        `/${username}`,
+      )
+      .toArray() as FileNode[];
+
+    const baseUrl = `https://${
+      this.env.ENVIRONMENT === "development" ? "localhost:3000" : "xytext.com"
+    }`;
+    let llmsTxt = `# ${username}'s Files\n\n`;
+    llmsTxt += `This document lists all available files for ${username}.\n\n`;
+
+    files.forEach((file) => {
+      llmsTxt += `${baseUrl}${file.path}\n`;
+    });
+
+    if (files.length === 0) {
+      llmsTxt += `No files available for ${username}.\n`;
+    }
+
+    return llmsTxt;
+  }
+
+  async handleFileGet(
+    url: URL,
+    username: string,
+    requestHeaders?: Headers,
+    scopes: string[] | null = null,
+  ): Promise<Response> {
+    const rawPath = pathFromURL(url.pathname);
+
+    const snapshotId = url.searchParams.get("snapshot");
+    if (snapshotId !== null) {
+      return this.handleSnapshotGet(snapshotId, userPath(rawPath, username));
+    }
+
+    const format = url.searchParams.get("format");
+    if (format !== null) {
+      return this.handleArchiveGet(userPath(rawPath, username), format);
+    }
 
     if (rawPath === "/") {
       const files = this.sql
         .exec(
           `
-        SELECT path, created_at, updated_at, type, size FROM nodes
-        WHERE path LIKE ?
+        SELECT path, created_at, updated_at, type, size, mime_type,
+          CASE WHEN type = 'link' THEN content END as target
+        FROM nodes
+        WHERE ${subtreeSQL()} AND path != ?
         ORDER BY type DESC, path ASC
       `,
-          `/${username}/%`,
+          `/${username}`,
+          `/${username}`,
+          `/${username}`,
+          `/${username}`,
+        )
+        .toArray();
+
+      return new Response(
+        JSON.stringify({
+          username: username,
+          files: files,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const requestedPath = userPath(rawPath, username);
+
+    // Links are followed; the response says where the content really lives
+    let path: string;
+    try {
+      path = this.resolveLinks(requestedPath);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 508,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (path !== requestedPath && !this.canRead(username, scopes, path)) {
+      return new Response(
+        JSON.stringify({ error: "Insufficient permissions for link target" }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+    const location: Record<string, string> =
+      path !== requestedPath ? { "Content-Location": path } : {};
+
+    const at = url.searchParams.get("at");
+    if (at !== null) {
+      const version = this.readAt(path, Number(at));
+      if (!version) {
+        return new Response(
+          JSON.stringify({ error: "No version found at that time" }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          path: path,
+          type: "file",
+          ...version,
+        }),
+        {
+          headers: { "Content-Type": "application/json", ...location },
+        },
+      );
+    }
+
+    const nodeResult = this.sql
+      .exec(
+        `
+      SELECT path, content, type, created_at, updated_at, size, mime_type, hash FROM nodes WHERE path = ?
+    `,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          path: string;
+          content: string;
+          hash: string | null;
+          type: string;
+          created_at: number;
+          updated_at: number;
+          size: number;
+          mime_type: string | null;
+        }
+      | undefined;
+
+    if (!nodeResult) {
+      return new Response(JSON.stringify({ error: "File not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Files get validators so clients can revalidate and do safe writes
+    const etag = this.nodeETag(nodeResult);
+    const validators: Record<string, string> = {
+      ...(etag && { ETag: etag }),
+      "Last-Modified": httpDate(nodeResult.updated_at),
+      ...location,
+    };
+
+    if (
+      nodeResult.type !== "folder" &&
+      this.isNotModified(requestHeaders, etag, nodeResult.updated_at)
+    ) {
+      return new Response(null, { status: 304, headers: validators });
+    }
+
+    const pointer = url.searchParams.get("pointer");
+    if (pointer !== null) {
+      try {
+        if (nodeResult.type !== "file") {
+          throw new JsonPatchError(
+            "Only JSON files can be read by pointer",
+            400,
+          );
+        }
+        const value = getPointer(
+          this.parseJSONFile(this.readBlob(nodeResult.hash), 400),
+          pointer,
+        );
+        return new Response(JSON.stringify({ path, pointer, value }), {
+          headers: { "Content-Type": "application/json", ...validators },
+        });
+      } catch (error) {
+        if (!(error instanceof JsonPatchError)) throw error;
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: error.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const after = url.searchParams.get("after");
+    if (after !== null) {
+      const limit = Number(
+        url.searchParams.get("limit") ?? DEFAULT_LOG_READ_LIMIT,
+      );
+      try {
+        if (nodeResult.type !== "file") {
+          throw new Error("Only log files can be read by sequence number");
+        }
+        if (!/^\d+$/.test(after)) {
+          throw new Error("after must be a sequence number");
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOG_RECORDS) {
+          throw new Error(`limit must be between 1 and ${MAX_LOG_RECORDS}`);
+        }
+        const { records, hasMore } = this.readLogRecords(
+          path,
+          Number(after),
+          limit,
+        )!;
+        return new Response(
+          JSON.stringify({
+            path,
+            records,
+            cursor: records.length
+              ? records[records.length - 1].seq
+              : Number(after),
+            has_more: hasMore,
+          }),
+          { headers: { "Content-Type": "application/json", ...validators } },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // If-Range: only serve the range if the client's copy is still current
+    const ifRange = requestHeaders?.get("If-Range");
+    const rangeHeader =
+      ifRange && ifRange !== etag && ifRange !== validators["Last-Modified"]
+        ? null
+        : (requestHeaders?.get("Range") ?? null);
+
+    if (nodeResult.type === "binary") {
+      const head = rangeHeader
+        ? await this.env.FILES.head(nodeResult.content)
+        : null;
+      const size = head?.size ?? 0;
+      const range = head ? parseRange(rangeHeader, size) : null;
+      if (range === "unsatisfiable") {
+        return this.rangeNotSatisfiable(size, validators);
+      }
+
+      const object = await this.env.FILES.get(
+        nodeResult.content,
+        range
+          ? {
+              range: {
+                offset: range.start,
+                length: range.end - range.start + 1,
+              },
+            }
+          : undefined,
+      );
+      if (!object) {
+        return new Response(JSON.stringify({ error: "File not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const headers = new Headers(validators);
+      object.writeHttpMetadata(headers);
+      if (!headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/octet-stream");
+      }
+      headers.set("Accept-Ranges", "bytes");
+      if (range) {
+        headers.set(
+          "Content-Range",
+          `bytes ${range.start}-${range.end}/${object.size}`,
+        );
+        headers.set("Content-Length", String(range.end - range.start + 1));
+        return new Response(object.body, { status: 206, headers });
+      }
+      headers.set("Content-Length", String(object.size));
+      return new Response(object.body, { headers });
+    }
+
+    // Ranges of text files are served as raw UTF-8 bytes
+    if (nodeResult.type === "file" && rangeHeader) {
+      const size = this.fileByteLength(path);
+      const range = parseRange(rangeHeader, size);
+      if (range === "unsatisfiable") {
+        return this.rangeNotSatisfiable(size, validators);
+      }
+      if (range) {
+        const bytes = this.readByteRange(path, range) as Uint8Array;
+        return new Response(bytes, {
+          status: 206,
+          headers: {
+            "Content-Type": `${nodeResult.mime_type || "text/plain"}; charset=utf-8`,
+            "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+            "Content-Length": String(bytes.length),
+            "Accept-Ranges": "bytes",
+            ...validators,
+          },
+        });
+      }
+    }
+
+    if (nodeResult.type === "folder") {
+      const children = this.sql
+        .exec(
+          `
+        SELECT path, name, type, size, created_at, updated_at, mime_type,
+          CASE WHEN type = 'link' THEN content END as target, expires_at,
+          ${sha256SQL()} as sha256
+        FROM nodes
+        WHERE parent_path = ?
+        ORDER BY type DESC, name ASC
+      `,
+          path,
         )
         .toArray();
 
-      return new Response(
-        JSON.stringify({
-          username: username,
-          files: files,
-        }),
-        {
+      return new Response(
+        JSON.stringify({
+          path: path,
+          type: "folder",
+          children: children,
+        }),
+        {
+          headers: { "Content-Type": "application/json", ...location },
+        },
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        path: path,
+        type: "file",
+        content: this.readBlob(nodeResult.hash),
+        size: nodeResult.size,
+        mime_type: nodeResult.mime_type,
+        created_at: nodeResult.created_at,
+        updated_at: nodeResult.updated_at,
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Accept-Ranges": "bytes",
+          ...validators,
+        },
+      },
+    );
+  }
+
+  private rangeNotSatisfiable(
+    size: number,
+    validators: Record<string, string>,
+  ): Response {
+    return new Response(JSON.stringify({ error: "Range not satisfiable" }), {
+      status: 416,
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Range": `bytes */${size}`,
+        ...validators,
+      },
+    });
+  }
+
+  // ==================== CONDITIONAL REQUESTS ====================
+
+  /**
+   * Entity tag for a file: the SHA-256 of text content (its blob hash), or
+   * the (immutable) bucket key of binary content. Folders have no entity tag.
+   */
+  private nodeETag(node: {
+    type: string;
+    content?: string | null;
+    hash?: string | null;
+  }): string | null {
+    if (node.type === "file") {
+      return `"${node.hash ?? sha256Hex("")}"`;
+    }
+    if (node.type === "binary" && node.content) {
+      return `"${node.content.split("/").pop()}"`;
+    }
+    return null;
+  }
+
+  /**
+   * ETag and Last-Modified headers for the node at path, if it exists
+   */
+  private validatorHeaders(path: string): Record<string, string> {
+    const node = this.sql
+      .exec(
+        `SELECT type, content, hash, updated_at FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          type: string;
+          content: string | null;
+          hash: string | null;
+          updated_at: number;
+        }
+      | undefined;
+
+    if (!node) return {};
+
+    const etag = this.nodeETag(node);
+    return {
+      ...(etag && { ETag: etag }),
+      "Last-Modified": httpDate(node.updated_at),
+    };
+  }
+
+  /**
+   * Evaluate If-Match, If-None-Match and If-Unmodified-Since for a write to
+   * path. Returns a 412 response when a precondition fails, otherwise null.
+   */
+  checkPreconditions(request: Request, path: string): Response | null {
+    const ifMatch = request.headers.get("If-Match");
+    const ifNoneMatch = request.headers.get("If-None-Match");
+    const ifUnmodifiedSince = request.headers.get("If-Unmodified-Since");
+
+    if (!ifMatch && !ifNoneMatch && !ifUnmodifiedSince) {
+      return null;
+    }
+
+    const node = this.sql
+      .exec(
+        `SELECT type, content, hash, updated_at FROM nodes WHERE path = ?`,
+        path,
+      )
+      .toArray()[0] as
+      | {
+          type: string;
+          content: string | null;
+          hash: string | null;
+          updated_at: number;
+        }
+      | undefined;
+    const etag = node ? this.nodeETag(node) : null;
+
+    let failed = false;
+    if (ifMatch) {
+      const tags = parseETagList(ifMatch);
+      failed = tags.includes("*") ? !node : !etag || !tags.includes(etag);
+    }
+    if (!failed && ifNoneMatch) {
+      const tags = parseETagList(ifNoneMatch);
+      failed = tags.includes("*") ? !!node : !!etag && tags.includes(etag);
+    }
+    if (!failed && !ifMatch && ifUnmodifiedSince && node) {
+      const since = Date.parse(ifUnmodifiedSince);
+      failed = !isNaN(since) && node.updated_at * 1000 > since;
+    }
+
+    if (!failed) return null;
+
+    return new Response(
+      JSON.stringify({
+        error: "Precondition failed",
+        path,
+        ...(etag && { etag }),
+        ...(node && { updated_at: node.updated_at }),
+      }),
+      {
+        status: 412,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.validatorHeaders(path),
+        },
+      },
+    );
+  }
+
+  /**
+   * Evaluate If-None-Match and If-Modified-Since for a read.
+   * Returns true when the client's cached copy is still current.
+   */
+  private isNotModified(
+    headers: Headers | undefined,
+    etag: string | null,
+    updatedAt: number,
+  ): boolean {
+    if (!headers) return false;
+    const ifNoneMatch = headers.get("If-None-Match");
+    if (ifNoneMatch) {
+      const tags = parseETagList(ifNoneMatch);
+      return tags.includes("*") || (!!etag && tags.includes(etag));
+    }
+    const ifModifiedSince = headers.get("If-Modified-Since");
+    if (ifModifiedSince) {
+      const since = Date.parse(ifModifiedSince);
+      return !isNaN(since) && updatedAt * 1000 <= since;
+    }
+    return false;
+  }
+
+  async handleAPIRequest(
+    request: Request,
+    url: URL,
+    username: string,
+  ): Promise<Response> {
+    const pathSegments = url.pathname.split("/").filter((p) => p);
+    const apiEndpoint = pathSegments[1];
+    const clientId = request.headers.get("x-client-id") || null;
+    const scopes = parseScopesHeader(request.headers.get("x-scopes"));
+
+    let requestData: any = {};
+    if (request.method === "POST" && apiEndpoint === "import") {
+      // The body is the archive itself, so options come from the query
+      requestData = Object.fromEntries(url.searchParams);
+    } else if (request.method === "POST") {
+      try {
+        requestData = await request.json();
+      } catch (e) {
+        return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const denied = this.checkAPIAccess(
+      apiEndpoint,
+      requestData,
+      username,
+      scopes,
+    );
+    if (denied) return denied;
+
+    // ==================== GREP API ====================
+    if (apiEndpoint === "grep" && request.method === "POST") {
+      const {
+        pattern,
+        path,
+        regex,
+        caseSensitive,
+        maxResults,
+        contextLines,
+        filePattern,
+        useFTS,
+        tags,
+      } = requestData;
+
+      if (!pattern) {
+        return new Response(JSON.stringify({ error: "Pattern is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const tagFilter = tags === undefined ? [] : this.normalizeTags(tags);
+        const results = useFTS
+          ? this.grepFTS(username, pattern, {
+              path,
+              maxResults,
+              tags: tagFilter,
+              scopes,
+            })
+          : this.grep(username, pattern, {
+              path,
+              regex,
+              caseSensitive,
+              maxResults,
+              contextLines,
+              filePattern,
+              tags: tagFilter,
+              scopes,
+            });
+
+        return new Response(
+          JSON.stringify({ results, count: results.length }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== FIND API ====================
+    if (apiEndpoint === "find" && request.method === "POST") {
+      const {
+        path,
+        name,
+        type,
+        minSize,
+        maxSize,
+        newerThan,
+        olderThan,
+        maxDepth,
+        maxResults,
+        tags,
+        expiring,
+        expired,
+        expiresBefore,
+      } = requestData;
+
+      try {
+        const results = this.find(username, {
+          path,
+          name,
+          type,
+          minSize,
+          maxSize,
+          newerThan,
+          olderThan,
+          maxDepth,
+          maxResults,
+          tags: tags === undefined ? [] : this.normalizeTags(tags),
+          expiring,
+          expired,
+          expiresBefore,
+        });
+        return new Response(
+          JSON.stringify({ results, count: results.length }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== STAT API ====================
+    if (apiEndpoint === "stat" && request.method === "POST") {
+      const { path } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const result = this.stat(username, path);
+      if (!result) {
+        return new Response(JSON.stringify({ error: "File not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // ==================== DU (DISK USAGE) API ====================
+    if (apiEndpoint === "du" && request.method === "POST") {
+      const { path } = requestData;
+      const result = this.du(username, path);
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // ==================== HEAD API ====================
+    if (apiEndpoint === "head" && request.method === "POST") {
+      const { path, lines = 10, bytes } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const content = this.readPartial(
+          username,
+          path,
+          bytes !== undefined ? { head: bytes, lines: false } : { head: lines },
+          scopes,
+        );
+        return new Response(JSON.stringify({ content }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== TAIL API ====================
+    if (apiEndpoint === "tail" && request.method === "POST") {
+      const { path, lines = 10, bytes } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const content = this.readPartial(
+          username,
+          path,
+          bytes !== undefined ? { tail: bytes, lines: false } : { tail: lines },
+          scopes,
+        );
+        return new Response(JSON.stringify({ content }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== WC (WORD COUNT) API ====================
+    if (apiEndpoint === "wc" && request.method === "POST") {
+      const { path } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const result = this.wc(username, path, scopes);
+        return new Response(JSON.stringify(result), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== LOG API ====================
+    if (apiEndpoint === "log-append" && request.method === "POST") {
+      const { path, records } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
           headers: { "Content-Type": "application/json" },
-        },
-      );
+        });
+      }
+
+      if (
+        !Array.isArray(records) ||
+        records.length === 0 ||
+        records.length > MAX_LOG_RECORDS
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `records must be an array of 1 to ${MAX_LOG_RECORDS} values`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      const preconditionFailed = this.checkPreconditions(request, fullPath);
+      if (preconditionFailed) return preconditionFailed;
+
+      try {
+        const appended = this.appendLogRecords(fullPath, records, clientId);
+        this.broadcastFileChange(username, "update", fullPath);
+        this.broadcast(
+          "",
+          { type: "records", path: fullPath, records: appended },
+          fullPath,
+        );
+        return new Response(
+          JSON.stringify({
+            success: true,
+            path: fullPath,
+            first_seq: appended[0].seq,
+            last_seq: appended[appended.length - 1].seq,
+          }),
+          {
+            headers: {
+              "Content-Type": "application/json",
+              ...this.validatorHeaders(fullPath),
+            },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
-    const path = this.ensureUserPrefix(rawPath, username);
+    // ==================== APPEND API ====================
+    if (apiEndpoint === "append" && request.method === "POST") {
+      const { path, content } = requestData;
 
-    const nodeResult = this.sql
-      .exec(
-        `
-      SELECT content, type, created_at, updated_at, size FROM nodes WHERE path = ?
-    `,
-        path,
-      )
-      .toArray()[0] as
-      | {
-          content: string;
-          type: string;
-          created_at: number;
-          updated_at: number;
-          size: number;
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      const preconditionFailed = this.checkPreconditions(request, fullPath);
+      if (preconditionFailed) return preconditionFailed;
+
+      try {
+        // Content-Digest covers the appended text, Repr-Digest the whole
+        // file after appending
+        const contentDigest = request.headers.get("Content-Digest");
+        const reprDigest = request.headers.get("Repr-Digest");
+        if (contentDigest) {
+          checkDigest("Content-Digest", contentDigest, content || "");
         }
-      | undefined;
+        this.transaction(() => {
+          this.appendContent(fullPath, content || "", clientId);
+          if (reprDigest) {
+            checkDigest(
+              "Repr-Digest",
+              reprDigest,
+              this.readContent(fullPath) ?? "",
+            );
+          }
+        });
+        this.broadcastFileChange(username, "update", fullPath);
+        return new Response(JSON.stringify({ success: true, path: fullPath }), {
+          headers: {
+            "Content-Type": "application/json",
+            ...this.validatorHeaders(fullPath),
+          },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
 
-    if (!nodeResult) {
-      return new Response(JSON.stringify({ error: "File not found" }), {
-        status: 404,
+    // ==================== HISTORY API ====================
+    if (apiEndpoint === "history" && request.method === "POST") {
+      const { path, limit } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const fullPath = userPath(path, username);
+      const history = this.getHistory(fullPath, limit);
+      if (!history.current && history.revisions.length === 0) {
+        return new Response(JSON.stringify({ error: "File not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(JSON.stringify({ path: fullPath, ...history }), {
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    if (nodeResult.type === "folder") {
-      const children = this.sql
-        .exec(
-          `
-        SELECT path, name, type, size, created_at, updated_at FROM nodes
-        WHERE parent_path = ?
-        ORDER BY type DESC, name ASC
-      `,
-          path,
-        )
-        .toArray();
+    if (apiEndpoint === "diff" && request.method === "POST") {
+      const { path, from, to } = requestData;
 
-      return new Response(
-        JSON.stringify({
-          path: path,
-          type: "folder",
-          children: children,
-        }),
-        {
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
           headers: { "Content-Type": "application/json" },
-        },
-      );
+        });
+      }
+
+      const fullPath = userPath(path, username);
+      try {
+        const diff = this.diffRevisions(fullPath, from, to);
+        return new Response(JSON.stringify({ path: fullPath, diff }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
-    return new Response(
-      JSON.stringify({
-        path: path,
-        type: "file",
-        content: nodeResult.content || "",
-        size: nodeResult.size,
-        created_at: nodeResult.created_at,
-        updated_at: nodeResult.updated_at,
-      }),
-      {
-        headers: { "Content-Type": "application/json" },
-      },
-    );
-  }
+    if (apiEndpoint === "restore" && request.method === "POST") {
+      const { path, revision, at } = requestData;
 
-  private ensureUserPrefix(path: string, username: string): string {
-    const cleanPath = path.replace(/^\/+/, "");
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
-    if (cleanPath.startsWith(`${username}/`) || cleanPath === username) {
-      return `/${cleanPath}`;
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      try {
+        const content = this.restoreRevision(
+          fullPath,
+          { revision, at },
+          clientId,
+        );
+        this.broadcastFileChange(username, "update", fullPath, content);
+        return new Response(JSON.stringify({ success: true, path: fullPath }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
-    return `/${username}/${cleanPath}`;
-  }
+    // ==================== METADATA API ====================
+    if (apiEndpoint === "metadata" && request.method === "POST") {
+      const { path } = requestData;
 
-  async handleAPIRequest(
-    request: Request,
-    url: URL,
-    username: string,
-  ): Promise<Response> {
-    const pathSegments = url.pathname.split("/").filter((p) => p);
-    const apiEndpoint = pathSegments[1];
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
-    let requestData: any = {};
-    if (request.method === "POST") {
-      try {
-        requestData = await request.json();
-      } catch (e) {
-        return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+      const fullPath = userPath(path, username);
+      const result = this.getMetadata(fullPath);
+      if (!result) {
+        return new Response(JSON.stringify({ error: "Node not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(JSON.stringify({ path: fullPath, ...result }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (apiEndpoint === "set-metadata" && request.method === "POST") {
+      const { path, metadata = {}, mimeType } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
           status: 400,
           headers: { "Content-Type": "application/json" },
         });
       }
+
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      try {
+        this.setMetadata(fullPath, metadata, mimeType);
+        this.broadcastFileChange(username, "update", fullPath);
+        return new Response(
+          JSON.stringify({ path: fullPath, ...this.getMetadata(fullPath) }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
-    // ==================== GREP API ====================
-    if (apiEndpoint === "grep" && request.method === "POST") {
-      const {
-        pattern,
-        path,
-        regex,
-        caseSensitive,
-        maxResults,
-        contextLines,
-        filePattern,
-        useFTS,
-      } = requestData;
+    if (apiEndpoint === "delete-metadata" && request.method === "POST") {
+      const { path, keys } = requestData;
 
-      if (!pattern) {
-        return new Response(JSON.stringify({ error: "Pattern is required" }), {
+      if (!path || !Array.isArray(keys)) {
+        return new Response(
+          JSON.stringify({ error: "Path and keys are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      try {
+        const removed = this.deleteMetadata(fullPath, keys);
+        if (removed > 0) {
+          this.broadcastFileChange(username, "update", fullPath);
+        }
+        return new Response(JSON.stringify({ success: true, removed }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // ==================== EXPIRY API ====================
+    if (apiEndpoint === "set-expiry" && request.method === "POST") {
+      const { path, ttl, expires_at } = requestData;
+
+      if (!path) {
+        return new Response(JSON.stringify({ error: "Path is required" }), {
           status: 400,
           headers: { "Content-Type": "application/json" },
         });
       }
 
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
       try {
-        const results = useFTS
-          ? this.grepFTS(username, pattern, { path, maxResults })
-          : this.grep(username, pattern, {
-              path,
-              regex,
-              caseSensitive,
-              maxResults,
-              contextLines,
-              filePattern,
-            });
-
+        // Neither ttl nor expires_at means the node no longer expires
+        const expiresAt = parseExpiry(ttl, expires_at) ?? null;
+        if (!this.setExpiry(fullPath, expiresAt)) {
+          return new Response(JSON.stringify({ error: "Node not found" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
         return new Response(
-          JSON.stringify({ results, count: results.length }),
+          JSON.stringify({
+            success: true,
+            path: fullPath,
+            expires_at: expiresAt,
+          }),
           {
             headers: { "Content-Type": "application/json" },
           },
@@ -1295,34 +7450,72 @@ Endpoints:
       }
     }
 
-    // ==================== FIND API ====================
-    if (apiEndpoint === "find" && request.method === "POST") {
-      const {
-        path,
-        name,
-        type,
-        minSize,
-        maxSize,
-        newerThan,
-        olderThan,
-        maxDepth,
-        maxResults,
-      } = requestData;
+    // ==================== BATCH API ====================
+    if (apiEndpoint === "batch" && request.method === "POST") {
+      const { operations } = requestData;
+
+      if (
+        !Array.isArray(operations) ||
+        operations.length === 0 ||
+        operations.length > MAX_BATCH_OPERATIONS
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `operations must be an array of 1-${MAX_BATCH_OPERATIONS} operations`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const { success, status, results, changes } = this.runBatch(
+        username,
+        operations,
+        clientId,
+        scopes,
+        request.headers.get("Lock-Token"),
+      );
+      if (success) {
+        this.broadcastBatchChange(changes);
+      }
+
+      const failed = results.find((result) => result.status === "failed");
+      return new Response(
+        JSON.stringify({
+          success,
+          ...(failed && {
+            error: `Operation ${failed.index}: ${failed.error}`,
+          }),
+          results,
+        }),
+        {
+          status,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ==================== JSON INDEX API ====================
+    if (apiEndpoint === "set-indexes" && request.method === "POST") {
+      const { path, fields } = requestData;
+
+      if (!path || !Array.isArray(fields)) {
+        return new Response(
+          JSON.stringify({ error: "path and fields are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
 
+      const fullPath = userPath(path, username);
       try {
-        const results = this.find(username, {
-          path,
-          name,
-          type,
-          minSize,
-          maxSize,
-          newerThan,
-          olderThan,
-          maxDepth,
-          maxResults,
-        });
+        const indexed = this.setJSONIndexes(fullPath, fields);
         return new Response(
-          JSON.stringify({ results, count: results.length }),
+          JSON.stringify({ success: true, path: fullPath, fields, indexed }),
           {
             headers: { "Content-Type": "application/json" },
           },
@@ -1338,69 +7531,118 @@ Endpoints:
       }
     }
 
-    // ==================== STAT API ====================
-    if (apiEndpoint === "stat" && request.method === "POST") {
-      const { path } = requestData;
-
-      if (!path) {
-        return new Response(JSON.stringify({ error: "Path is required" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-
-      const result = this.stat(username, path);
-      if (!result) {
-        return new Response(JSON.stringify({ error: "File not found" }), {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-
-      return new Response(JSON.stringify(result), {
+    if (apiEndpoint === "indexes" && request.method === "POST") {
+      const indexes = this.listJSONIndexes(
+        userPath(requestData.path ?? "/", username),
+      );
+      return new Response(JSON.stringify({ indexes }), {
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    // ==================== DU (DISK USAGE) API ====================
-    if (apiEndpoint === "du" && request.method === "POST") {
-      const { path } = requestData;
-      const result = this.du(username, path);
-      return new Response(JSON.stringify(result), {
-        headers: { "Content-Type": "application/json" },
-      });
+    if (apiEndpoint === "query" && request.method === "POST") {
+      const { path, where, sort, limit, offset } = requestData;
+
+      try {
+        const { results, hasMore } = this.queryJSON(
+          username,
+          userPath(path ?? "/", username),
+          { where, sort, limit, offset },
+          scopes,
+        );
+        return new Response(
+          JSON.stringify({ results, count: results.length, has_more: hasMore }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
-    // ==================== HEAD API ====================
-    if (apiEndpoint === "head" && request.method === "POST") {
-      const { path, lines = 10 } = requestData;
+    // ==================== CHANGES API ====================
+    if (apiEndpoint === "changes" && request.method === "GET") {
+      const since = url.searchParams.get("since") ?? "0";
+      const limit = Number(
+        url.searchParams.get("limit") ?? DEFAULT_CHANGES_LIMIT,
+      );
+      const prefix = userPath(url.searchParams.get("path") ?? "/", username);
 
-      if (!path) {
-        return new Response(JSON.stringify({ error: "Path is required" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
+      if (since === "latest") {
+        return new Response(
+          JSON.stringify({
+            changes: [],
+            cursor: this.latestChangeCursor(),
+            has_more: false,
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+      if (!/^\d+$/.test(since)) {
+        return new Response(
+          JSON.stringify({ error: "since must be a cursor or latest" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CHANGES_LIMIT) {
+        return new Response(
+          JSON.stringify({
+            error: `limit must be between 1 and ${MAX_CHANGES_LIMIT}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
       }
 
-      try {
-        const content = this.readPartial(username, path, { head: lines });
-        return new Response(JSON.stringify({ content }), {
-          headers: { "Content-Type": "application/json" },
-        });
-      } catch (error) {
+      const page = this.readChanges(
+        username,
+        prefix,
+        Number(since),
+        limit,
+        scopes,
+      );
+      if (!page) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error:
+              "Changes after this cursor have been compacted. List the tree again and continue from cursor.",
+            cursor: this.latestChangeCursor(),
+          }),
           {
-            status: 404,
+            status: 410,
             headers: { "Content-Type": "application/json" },
           },
         );
       }
+      return new Response(
+        JSON.stringify({
+          changes: page.changes,
+          cursor: page.cursor,
+          has_more: page.hasMore,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
     }
 
-    // ==================== TAIL API ====================
-    if (apiEndpoint === "tail" && request.method === "POST") {
-      const { path, lines = 10 } = requestData;
+    // ==================== LOCKS API ====================
+    if (apiEndpoint === "lock" && request.method === "POST") {
+      const { path, ttl, owner = clientId ?? username, token } = requestData;
 
       if (!path) {
         return new Response(JSON.stringify({ error: "Path is required" }), {
@@ -1409,68 +7651,100 @@ Endpoints:
         });
       }
 
+      const fullPath = userPath(path, username);
       try {
-        const content = this.readPartial(username, path, { tail: lines });
-        return new Response(JSON.stringify({ content }), {
+        const lock = this.lockPath(fullPath, { ttl, owner, token });
+        const { token: _token, ...info } = lock;
+        this.broadcastLock(fullPath, info);
+        return new Response(JSON.stringify({ success: true, ...lock }), {
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
           {
-            status: 404,
+            status: errorStatus(error),
             headers: { "Content-Type": "application/json" },
           },
         );
       }
     }
 
-    // ==================== WC (WORD COUNT) API ====================
-    if (apiEndpoint === "wc" && request.method === "POST") {
-      const { path } = requestData;
+    if (apiEndpoint === "unlock" && request.method === "POST") {
+      const { path, token } = requestData;
 
-      if (!path) {
-        return new Response(JSON.stringify({ error: "Path is required" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
+      if (!path || !token) {
+        return new Response(
+          JSON.stringify({ error: "path and token are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
       }
 
+      const fullPath = userPath(path, username);
       try {
-        const result = this.wc(username, path);
-        return new Response(JSON.stringify(result), {
+        if (!this.unlockPath(fullPath, String(token))) {
+          return new Response(JSON.stringify({ error: "Not locked" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        this.broadcastLock(fullPath, null);
+        return new Response(JSON.stringify({ success: true, path: fullPath }), {
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
           {
-            status: 404,
+            status: errorStatus(error),
             headers: { "Content-Type": "application/json" },
           },
         );
       }
     }
 
-    // ==================== APPEND API ====================
-    if (apiEndpoint === "append" && request.method === "POST") {
-      const { path, content } = requestData;
+    // ==================== TAGS API ====================
+    if (
+      (apiEndpoint === "tag" || apiEndpoint === "untag") &&
+      request.method === "POST"
+    ) {
+      const { path, tags } = requestData;
 
-      if (!path) {
-        return new Response(JSON.stringify({ error: "Path is required" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
+      if (!path || tags === undefined) {
+        return new Response(
+          JSON.stringify({ error: "Path and tags are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
       }
 
-      const fullPath = this.ensureUserPrefix(path, username);
-
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
       try {
-        this.appendContent(fullPath, content || "");
+        const normalized = this.normalizeTags(tags);
+        const nodeTags =
+          apiEndpoint === "tag"
+            ? this.tagNode(fullPath, normalized)
+            : this.untagNode(fullPath, normalized);
         this.broadcastFileChange(username, "update", fullPath);
-        return new Response(JSON.stringify({ success: true, path: fullPath }), {
-          headers: { "Content-Type": "application/json" },
-        });
+        return new Response(
+          JSON.stringify({ success: true, path: fullPath, tags: nodeTags }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
       } catch (error) {
         return new Response(
           JSON.stringify({ error: (error as Error).message }),
@@ -1482,24 +7756,93 @@ Endpoints:
       }
     }
 
+    if (apiEndpoint === "tags" && request.method === "POST") {
+      const { path, node } = requestData;
+
+      // With `node`, list the tags of that node instead of all tags
+      if (node) {
+        const fullPath = userPath(node, username);
+        return new Response(
+          JSON.stringify({ path: fullPath, tags: this.getNodeTags(fullPath) }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const tags = this.listTags(username, path);
+      return new Response(JSON.stringify({ tags, count: tags.length }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Existing API endpoints...
     if (apiEndpoint === "visible-nodes" && request.method === "POST") {
       const { expandedPaths = [] } = requestData;
-      const visibleNodes = this.getVisibleNodes(expandedPaths, username);
+      const visibleNodes = this.getVisibleNodes(
+        (expandedPaths as unknown[]).map((path) => userPath(path, username)),
+        username,
+      );
       return new Response(JSON.stringify({ nodes: visibleNodes }), {
         headers: { "Content-Type": "application/json" },
       });
     }
 
     if (apiEndpoint === "create-file" && request.method === "POST") {
-      const { path, content = "" } = requestData;
-      const fullPath = this.ensureUserPrefix(path, username);
+      const { path, content = "", mimeType, ttl, expires_at } = requestData;
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
       try {
-        this.createFile(fullPath, content);
+        const expiresAt = parseExpiry(ttl, expires_at);
+        this.transaction(() => {
+          this.createFile(fullPath, content, clientId, mimeType || null);
+          if (expiresAt !== undefined) this.setExpiry(fullPath, expiresAt);
+        });
         this.broadcastFileChange(username, "create", fullPath, content);
         return new Response(JSON.stringify({ success: true, path: fullPath }), {
           headers: { "Content-Type": "application/json" },
         });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    if (apiEndpoint === "create-link" && request.method === "POST") {
+      const { path, target } = requestData;
+
+      if (!path || !target) {
+        return new Response(
+          JSON.stringify({ error: "Path and target are required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const fullPath = userPath(path, username);
+      const fullTarget = userPath(target, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      try {
+        this.createLink(fullPath, fullTarget);
+        this.broadcastFileChange(username, "create", fullPath);
+        return new Response(
+          JSON.stringify({ success: true, path: fullPath, target: fullTarget }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
       } catch (error) {
         return new Response(
           JSON.stringify({ error: (error as Error).message }),
@@ -1513,7 +7856,9 @@ Endpoints:
 
     if (apiEndpoint === "create-folder" && request.method === "POST") {
       const { path } = requestData;
-      const fullPath = this.ensureUserPrefix(path, username);
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
       try {
         this.createFolder(fullPath);
         this.broadcastFileChange(username, "create", fullPath);
@@ -1532,23 +7877,37 @@ Endpoints:
     }
 
     if (apiEndpoint === "copy-node" && request.method === "POST") {
-      const { sourcePath, targetPath } = requestData;
-      const fullSourcePath = this.ensureUserPrefix(sourcePath, username);
-      const fullTargetPath = this.ensureUserPrefix(targetPath, username);
+      const { sourcePath, targetPath, mode = "error" } = requestData;
+      const fullSourcePath = userPath(sourcePath, username);
+      const fullTargetPath = userPath(targetPath, username);
+      const locked = this.checkLocks(request, fullTargetPath);
+      if (locked) return locked;
       try {
-        this.copyNode(fullSourcePath, fullTargetPath);
+        const trashId = this.copyNode(
+          fullSourcePath,
+          fullTargetPath,
+          mode,
+          clientId,
+        );
         this.broadcastFileChange(username, "copy", fullTargetPath);
         return new Response(
-          JSON.stringify({ success: true, path: fullTargetPath }),
+          JSON.stringify({
+            success: true,
+            path: fullTargetPath,
+            ...(trashId && { trashId }),
+          }),
           {
             headers: { "Content-Type": "application/json" },
           },
         );
       } catch (error) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
           {
-            status: 400,
+            status: errorStatus(error),
             headers: { "Content-Type": "application/json" },
           },
         );
@@ -1556,11 +7915,18 @@ Endpoints:
     }
 
     if (apiEndpoint === "move-node" && request.method === "POST") {
-      const { sourcePath, targetPath } = requestData;
-      const fullSourcePath = this.ensureUserPrefix(sourcePath, username);
-      const fullTargetPath = this.ensureUserPrefix(targetPath, username);
+      const { sourcePath, targetPath, mode = "error" } = requestData;
+      const fullSourcePath = userPath(sourcePath, username);
+      const fullTargetPath = userPath(targetPath, username);
+      const locked = this.checkLocks(request, fullSourcePath, fullTargetPath);
+      if (locked) return locked;
+      const preconditionFailed = this.checkPreconditions(
+        request,
+        fullSourcePath,
+      );
+      if (preconditionFailed) return preconditionFailed;
       try {
-        this.moveNode(fullSourcePath, fullTargetPath);
+        const trashId = this.moveNode(fullSourcePath, fullTargetPath, mode);
         this.broadcastFileChange(
           username,
           "move",
@@ -1569,16 +7935,23 @@ Endpoints:
           fullSourcePath,
         );
         return new Response(
-          JSON.stringify({ success: true, path: fullTargetPath }),
+          JSON.stringify({
+            success: true,
+            path: fullTargetPath,
+            ...(trashId && { trashId }),
+          }),
           {
             headers: { "Content-Type": "application/json" },
           },
         );
       } catch (error) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
           {
-            status: 400,
+            status: errorStatus(error),
             headers: { "Content-Type": "application/json" },
           },
         );
@@ -1587,7 +7960,15 @@ Endpoints:
 
     if (apiEndpoint === "rename-node" && request.method === "POST") {
       const { path, newName } = requestData;
-      const fullPath = this.ensureUserPrefix(path, username);
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(
+        request,
+        fullPath,
+        fullPath.replace(/[^/]*$/, String(newName ?? "")),
+      );
+      if (locked) return locked;
+      const preconditionFailed = this.checkPreconditions(request, fullPath);
+      if (preconditionFailed) return preconditionFailed;
       try {
         this.renameNode(fullPath, newName);
         const pathParts = fullPath.split("/");
@@ -1605,9 +7986,12 @@ Endpoints:
         });
       } catch (error) {
         return new Response(
-          JSON.stringify({ error: (error as Error).message }),
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
           {
-            status: 400,
+            status: errorStatus(error),
             headers: { "Content-Type": "application/json" },
           },
         );
@@ -1616,11 +8000,13 @@ Endpoints:
 
     if (apiEndpoint === "delete-node" && request.method === "POST") {
       const { path } = requestData;
-      const fullPath = this.ensureUserPrefix(path, username);
-      const deleted = this.deleteNode(fullPath);
-      if (deleted) {
+      const fullPath = userPath(path, username);
+      const locked = this.checkLocks(request, fullPath);
+      if (locked) return locked;
+      const trashId = this.deleteNode(fullPath);
+      if (trashId) {
         this.broadcastFileChange(username, "delete", fullPath);
-        return new Response(JSON.stringify({ success: true }), {
+        return new Response(JSON.stringify({ success: true, trashId }), {
           headers: { "Content-Type": "application/json" },
         });
       } else {
@@ -1631,9 +8017,292 @@ Endpoints:
       }
     }
 
+    // ==================== TRASH API ====================
+    if (apiEndpoint === "trash" && request.method === "POST") {
+      const entries = this.listTrash();
+      return new Response(JSON.stringify({ entries, count: entries.length }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // ==================== QUOTA API ====================
+    if (apiEndpoint === "quota" && request.method === "POST") {
+      return new Response(JSON.stringify(this.getQuota(clientId)), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (apiEndpoint === "set-quota" && request.method === "POST") {
+      const { clientId: targetClientId = null, maxBytes } = requestData;
+
+      if (maxBytes === undefined) {
+        return new Response(JSON.stringify({ error: "maxBytes is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        this.setQuota(clientId, targetClientId, maxBytes);
+        return new Response(
+          JSON.stringify({ success: true, ...this.getQuota(clientId) }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: this.isOwnerClient(clientId) ? 400 : 403,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    if (apiEndpoint === "restore-trash" && request.method === "POST") {
+      const { trashId, targetPath } = requestData;
+
+      if (!trashId) {
+        return new Response(JSON.stringify({ error: "trashId is required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const fullTargetPath = targetPath
+        ? userPath(targetPath, username)
+        : undefined;
+      try {
+        const restoredPath = this.restoreTrash(
+          trashId,
+          fullTargetPath,
+          request.headers.get("Lock-Token"),
+        );
+        this.scheduleAlarm();
+        this.broadcastFileChange(username, "create", restoredPath);
+        return new Response(
+          JSON.stringify({ success: true, path: restoredPath }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    if (apiEndpoint === "purge-trash" && request.method === "POST") {
+      const { trashId } = requestData;
+      const purged = this.purgeTrash(trashId);
+      if (trashId && purged === 0) {
+        return new Response(
+          JSON.stringify({ error: "Trash entry not found" }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      this.scheduleAlarm();
+      return new Response(JSON.stringify({ success: true, purged }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // ==================== SNAPSHOTS API ====================
+    if (apiEndpoint === "snapshots" && request.method === "GET") {
+      const snapshots = this.listSnapshots();
+      return new Response(
+        JSON.stringify({ snapshots, count: snapshots.length }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (apiEndpoint === "snapshots" && request.method === "POST") {
+      const { name, path } = requestData;
+      try {
+        const snapshot = this.createSnapshot(
+          userPath(path ?? "/", username),
+          name,
+          clientId,
+        );
+        return new Response(JSON.stringify({ success: true, snapshot }), {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: (error as Error).message }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    if (apiEndpoint === "restore-snapshot" && request.method === "POST") {
+      const { snapshotId, path } = requestData;
+
+      if (!snapshotId) {
+        return new Response(
+          JSON.stringify({ error: "snapshotId is required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      try {
+        const restored = this.restoreSnapshot(
+          snapshotId,
+          path === undefined ? undefined : userPath(path, username),
+          clientId,
+          request.headers.get("Lock-Token"),
+        );
+        this.scheduleAlarm();
+        this.broadcastFileChange(username, "update", restored.path);
+        return new Response(
+          JSON.stringify({
+            success: true,
+            path: restored.path,
+            ...(restored.trashId && { trashId: restored.trashId }),
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    if (apiEndpoint === "delete-snapshot" && request.method === "POST") {
+      const { snapshotId } = requestData;
+      if (!snapshotId || !this.deleteSnapshot(snapshotId)) {
+        return new Response(JSON.stringify({ error: "Snapshot not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // ==================== DIAGNOSTICS API ====================
+    if (apiEndpoint === "diagnostics" && request.method === "GET") {
+      const counts = this.sql
+        .exec(
+          `SELECT
+            (SELECT COUNT(*) FROM nodes) as nodes,
+            (SELECT COUNT(*) FROM blobs) as blobs,
+            (SELECT COUNT(*) FROM revisions) as revisions,
+            (SELECT COUNT(*) FROM trash) as trash,
+            (SELECT COUNT(*) FROM snapshots) as snapshots`,
+        )
+        .one();
+      return new Response(
+        JSON.stringify({
+          schema: schemaStatus(this.sql, this.schemaMigrations()),
+          storage: { database_bytes: this.sql.databaseSize, ...counts },
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ==================== IMPORT API ====================
+    if (apiEndpoint === "import" && request.method === "POST") {
+      const { path, mode } = requestData;
+      try {
+        const targetPath = userPath(path ?? "/", username);
+        const items = await readArchive(
+          new Uint8Array(await request.arrayBuffer()),
+          MAX_IMPORT_BYTES,
+        );
+        const entries = this.importEntries(targetPath, items);
+
+        const denied = entries.find(
+          (entry) => !this.canAccess(username, scopes, "write", entry.path),
+        );
+        if (denied) {
+          return new Response(
+            JSON.stringify({
+              error: "Insufficient permissions",
+              path: denied.path,
+            }),
+            {
+              status: 403,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
+        }
+
+        const { changes, skipped } = await this.importArchive(
+          targetPath,
+          entries,
+          mode,
+          clientId,
+          request.headers.get("Lock-Token"),
+        );
+        if (changes.length > 0) {
+          this.broadcastBatchChange(changes);
+        }
+        return new Response(
+          JSON.stringify({
+            success: true,
+            path: targetPath,
+            imported: changes.length,
+            changes,
+            skipped,
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      } catch (error) {
+        return new Response(
+          JSON.stringify({
+            error: (error as Error).message,
+            ...errorDetails(error),
+          }),
+          {
+            status: errorStatus(error),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
     if (apiEndpoint === "get-next-name" && request.method === "POST") {
       const { basePath, extension } = requestData;
-      const fullBasePath = this.ensureUserPrefix(basePath, username);
+      const fullBasePath = userPath(basePath, username);
       const nextName = this.getNextAvailableName(fullBasePath, extension);
       return new Response(JSON.stringify({ nextName }), {
         headers: { "Content-Type": "application/json" },
@@ -1650,37 +8319,30 @@ Endpoints:
     request: Request,
     username: string,
     rawPath: string,
+    clientId: string | null = null,
+    scopes: string[] | null = null,
   ): Response {
     const webSocketPair = new WebSocketPair();
     const [client, server] = Object.values(webSocketPair);
     server.accept();
     const sessionId = crypto.randomUUID();
 
-    const path = this.ensureUserPrefix(rawPath, username);
-
-    let textContent = "";
-    const nodeResult = this.sql
-      .exec(
-        `
-      SELECT content, type FROM nodes WHERE path = ?
-    `,
-        path,
-      )
-      .toArray()[0] as
-      | {
-          content: string;
-          type: string;
-        }
-      | undefined;
+    const path = userPath(rawPath, username);
 
-    if (nodeResult && nodeResult.type === "file") {
-      textContent = nodeResult.content || "";
-    }
+    const params = new URL(request.url).searchParams;
+    // With ?after= the socket follows a log file instead of editing text
+    const follow = params.get("after");
+    // Token of a lock this session holds, for its text saves. Kept out of
+    // the session, which other sessions see.
+    const lockToken = params.get("lock");
+    const textContent =
+      follow === null ? this.readContent(path) || "" : undefined;
 
     this.sessions.set(sessionId, {
       path,
       webSocket: server,
       username,
+      clientId,
       name: username,
       profile_image_url: "",
     });
@@ -1719,9 +8381,24 @@ Endpoints:
         sessionCount: this.sessions.size,
         sessions,
         username,
+        lock: this.activeLock(path),
       }),
     );
 
+    if (follow !== null) {
+      try {
+        this.sendLogBacklog(server, path, Number(follow) || 0);
+      } catch (error) {
+        server.send(
+          JSON.stringify({
+            type: "error",
+            message: (error as Error).message,
+            status: 400,
+          }),
+        );
+      }
+    }
+
     server.addEventListener("message", async (msg: MessageEvent) => {
       try {
         const data = JSON.parse(msg.data as string) as WSMessage;
@@ -1730,15 +8407,30 @@ Endpoints:
           data.text !== undefined &&
           data.version !== undefined
         ) {
+          // The upgrade is a GET, which only needs read access
+          if (!this.canAccess(username, scopes, "write", path)) {
+            server.send(
+              JSON.stringify({
+                type: "error",
+                message: "Insufficient permissions",
+                status: 403,
+                path,
+              }),
+            );
+            return;
+          }
           this.version = data.version;
           try {
-            this.saveContent(path, data.text);
+            this.assertUnlocked(lockToken, path);
+            this.saveContent(path, data.text, clientId);
             this.broadcastFileChange(username, "update", path, data.text);
           } catch (error) {
             server.send(
               JSON.stringify({
                 type: "error",
-                message: "Cannot edit folder content",
+                message: (error as Error).message,
+                status: errorStatus(error),
+                ...errorDetails(error),
               }),
             );
             return;
@@ -1788,13 +8480,29 @@ Endpoints:
   ): void {
     const message: WSMessage = {
       type: "file_change",
+      action,
       path,
       ...(content !== undefined && { text: content }),
       ...(oldPath && { fromSession: oldPath }),
     };
 
-    (message as any).action = action;
+    this.broadcastMessage(message);
+  }
+
+  /**
+   * Announce all changes made by a batch in a single file_change message
+   */
+  broadcastBatchChange(changes: FileChange[]): void {
+    const message: WSMessage = {
+      type: "file_change",
+      action: "batch",
+      changes,
+    };
+
+    this.broadcastMessage(message);
+  }
 
+  private broadcastMessage(message: WSMessage): void {
     const messageStr = JSON.stringify(message);
     for (const [sessionId, session] of this.sessions.entries()) {
       try {
@@ -1815,37 +8523,42 @@ const protectedHandler = async (
   const url = new URL(request.url);
   const path = url.pathname;
 
-  // Apply permissions checks
-  if (request.method === "GET") {
-    const requiredScope = path === "/" ? "read:" : `read:${path.slice(1)}`;
-    if (!ctx.hasScope(requiredScope)) {
-      return addCorsHeaders(
-        new Response("Insufficient permissions", { status: 403 }),
-      );
-    }
-  } else if (request.method === "PUT") {
-    const requiredScope = `write:${path.slice(1)}`;
-    if (!ctx.hasScope(requiredScope)) {
+  if (!ctx.user) {
+    return addCorsHeaders(
+      new Response("Authentication required", { status: 401 }),
+    );
+  }
+
+  // File routes are checked here on the canonical path; API endpoints are
+  // checked per endpoint by the Durable Object, which gets the scopes below
+  const action: ScopeAction | null =
+    request.method === "GET"
+      ? "read"
+      : request.method === "PUT" ||
+          request.method === "PATCH" ||
+          request.method === "DELETE"
+        ? "write"
+        : null;
+  if (action && !path.startsWith("/api/")) {
+    let scope: string;
+    try {
+      scope = requiredScope(action, pathFromURL(path), ctx.user.username);
+    } catch (error) {
+      if (!(error instanceof PathError)) throw error;
       return addCorsHeaders(
-        new Response("Insufficient permissions", { status: 403 }),
+        new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }),
       );
     }
-  } else if (request.method === "POST" && path.startsWith("/api/append")) {
-    const targetPath = url.searchParams.get("path");
-    const requiredScope = `append:${targetPath?.slice(1)}`;
-    if (!ctx.hasScope(requiredScope)) {
+    if (!ctx.hasScope(scope)) {
       return addCorsHeaders(
         new Response("Insufficient permissions", { status: 403 }),
       );
     }
   }
 
-  if (!ctx.user) {
-    return addCorsHeaders(
-      new Response("Authentication required", { status: 401 }),
-    );
-  }
-
   const stub = env.TEXT.get(env.TEXT.idFromName(ctx.user.id + DO_NAME_SUFFIX));
 
   // Handle studio endpoint
@@ -1873,11 +8586,33 @@ const protectedHandler = async (
     headers: {
       ...Object.fromEntries(request.headers.entries()),
       "x-username": ctx.user.username,
+      "x-client-id": ctx.clientId || "",
+      "x-scopes": ctx.scopes.join(" "),
     },
   });
 
   try {
     const response = await stub.fetch(newRequest);
+
+    // Diagnostics also cover the user's login store
+    if (url.pathname === "/api/diagnostics" && response.ok && env.UserDO) {
+      const userDO = env.UserDO.get(
+        env.UserDO.idFromName(`${USER_DO_PREFIX}${ctx.user.id}`),
+      );
+      const diagnostics = (await response.json()) as Record<string, unknown>;
+      return addCorsHeaders(
+        new Response(
+          JSON.stringify({
+            ...diagnostics,
+            user_schema: await userDO.getSchemaStatus(),
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          },
+        ),
+      );
+    }
+
     return addCorsHeaders(response);
   } catch (error) {
     console.error("Error calling Durable Object:", error);
@@ -0,0 +1,129 @@
+/**
+ * Versioned schema migrations for Durable Object SQLite storage. Each object
+ * records the migrations it has applied in `schema_migrations` and applies
+ * the missing ones in order, each in its own transaction.
+ *
+ * Objects created before migrations existed start at version 0, so every
+ * migration must be idempotent: check before altering, create IF NOT EXISTS.
+ * Never edit or reorder a migration once it has shipped; add a new one.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (sql: SqlStorage) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: number;
+}
+
+export interface SchemaStatus {
+  // Last migration applied to this object
+  version: number;
+  // Last migration this code knows about
+  latest: number;
+  pending: number[];
+  applied: AppliedMigration[];
+}
+
+/**
+ * Thrown when a migration fails. Its transaction is rolled back, so the
+ * object stays at the previous version and retries on the next start.
+ */
+export class MigrationError extends Error {
+  constructor(
+    readonly migration: Migration,
+    cause: unknown,
+  ) {
+    super(
+      `Migration ${migration.version} (${migration.name}) failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = "MigrationError";
+  }
+}
+
+function createMigrationsTable(sql: SqlStorage): void {
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+function currentVersion(sql: SqlStorage): number {
+  const row = sql
+    .exec(`SELECT COALESCE(MAX(version), 0) as version FROM schema_migrations`)
+    .toArray()[0] as { version: number };
+  return row.version;
+}
+
+/**
+ * Apply every migration newer than the stored version. Returns the versions
+ * that were applied.
+ */
+export function runMigrations(
+  storage: DurableObjectStorage,
+  migrations: Migration[],
+): number[] {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migration versions must increase: ${migration.version} follows ${migrations[i - 1].version}`,
+      );
+    }
+  });
+
+  const sql = storage.sql;
+  createMigrationsTable(sql);
+  const version = currentVersion(sql);
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    try {
+      storage.transactionSync(() => {
+        migration.up(sql);
+        sql.exec(
+          `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`,
+          migration.version,
+          migration.name,
+          Math.round(Date.now() / 1000),
+        );
+      });
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+/**
+ * Schema version of an object compared with the migrations the code knows
+ */
+export function schemaStatus(
+  sql: SqlStorage,
+  migrations: Migration[],
+): SchemaStatus {
+  createMigrationsTable(sql);
+  const version = currentVersion(sql);
+  return {
+    version,
+    latest: migrations.length ? migrations[migrations.length - 1].version : 0,
+    pending: migrations
+      .filter((migration) => migration.version > version)
+      .map((migration) => migration.version),
+    applied: sql
+      .exec(
+        `SELECT version, name, applied_at FROM schema_migrations ORDER BY version`,
+      )
+      .toArray() as unknown as AppliedMigration[],
+  };
+}
@@ -9,14 +9,17 @@
 import { getMultiStub } from "multistub";
 import type { Env, XUser, ResourceUserContext } from "./types";
 import {
+  CORS_ALLOWED_HEADERS,
   getCorsHeaders,
   handleOptionsRequest,
   getAccessToken,
   generateCodeVerifier,
   encrypt,
   decrypt,
+  scopeMatches,
   USER_DO_PREFIX,
 } from "./utils";
+import { normalizePath, PathError } from "./paths";
 
 export { ResourceUserContext } from "./types";
 
@@ -260,7 +263,22 @@ async function handleConsent(request: Request, env: Env): Promise<Response> {
       }
 
       for (const selectedResource of selectedResources) {
-        finalScopes.push(`${scopeAction}:${selectedResource}`);
+        // Scopes hold canonical paths so they match the checks on requests
+        let resourcePath: string;
+        try {
+          resourcePath = normalizePath(selectedResource).slice(1);
+        } catch (error) {
+          if (!(error instanceof PathError)) throw error;
+          redirectUrl.searchParams.set("error", "invalid_scope");
+          redirectUrl.searchParams.set("error_description", error.message);
+          if (state) redirectUrl.searchParams.set("state", state);
+
+          return new Response(null, {
+            status: 302,
+            headers: { ...getCorsHeaders(), Location: redirectUrl.toString() },
+          });
+        }
+        finalScopes.push(`${scopeAction}:${resourcePath}`);
       }
     } else {
       finalScopes.push(scope);
@@ -471,15 +489,15 @@ export function tokenValidationMiddleware<
         status: 200,
         headers: {
           "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-          "Access-Control-Allow-Headers":
-            "Content-Type, Authorization, x-username, x-api-key",
+          "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+          "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
           "Access-Control-Max-Age": "0",
         },
       });
     }
 
     let user: XUser | undefined = undefined;
+    let clientId: string | undefined = undefined;
     let scopes: string[] = [];
     const accessToken = getAccessToken(request) ?? undefined;
 
@@ -498,6 +516,7 @@ export function tokenValidationMiddleware<
         const loginData = await userDO.getResourceLogin(accessToken);
         if (loginData) {
           user = loginData.user;
+          clientId = loginData.clientId;
           scopes = loginData.scopes;
         }
       } catch {
@@ -505,50 +524,8 @@ export function tokenValidationMiddleware<
       }
     }
 
-    const hasScope = (requiredScope: string): boolean => {
-      if (scopes.includes(requiredScope)) return true;
-
-      const [requiredAction, requiredResource = ""] = requiredScope.split(
-        ":",
-        2
-      );
-
-      for (const grantedScope of scopes) {
-        const [grantedAction, grantedResource = ""] = grantedScope.split(
-          ":",
-          2
-        );
-
-        if (grantedAction !== requiredAction) continue;
-        if (grantedResource === "") return true;
-
-        if (requiredResource === "") {
-          if (scopes.includes(requiredAction)) return true;
-          continue;
-        }
-
-        if (requiredResource.startsWith(grantedResource)) {
-          if (grantedResource === "" || requiredResource === grantedResource) {
-            return true;
-          }
-
-          const nextChar = requiredResource.charAt(grantedResource.length);
-          if (
-            grantedResource.endsWith("/") ||
-            nextChar === "/" ||
-            nextChar === ""
-          ) {
-            return true;
-          }
-        }
-      }
-
-      if (requiredScope.includes(":")) {
-        return scopes.includes(requiredAction);
-      }
-
-      return false;
-    };
+    const hasScope = (requiredScope: string): boolean =>
+      scopeMatches(scopes, requiredScope);
 
     if (config?.isLoginRequired && !user) {
       const url = new URL(request.url);
@@ -579,6 +556,7 @@ export function tokenValidationMiddleware<
       props: ctx.props,
       waitUntil: (promise: Promise<any>) => ctx.waitUntil(promise),
       user,
+      clientId,
       scopes,
       accessToken,
       hasScope,
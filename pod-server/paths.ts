@@ -0,0 +1,159 @@
+/**
+ * Path normalisation and validation. Every endpoint and scope check goes
+ * through these functions, so one string always names one node and a scope
+ * can't be side-stepped with `..`, extra slashes or lookalike characters.
+ */
+
+export const MAX_PATH_LENGTH = 1024;
+export const MAX_NAME_LENGTH = 255;
+export const MAX_PATH_DEPTH = 32;
+
+// Names that would be read as navigation rather than as a node
+const FORBIDDEN_NAMES = new Set([".", ".."]);
+
+// C0 and C1 control characters
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/;
+
+// Invisible characters that make two different names look the same:
+// soft hyphen, joiners, bidi controls, variation selectors and fillers
+const INVISIBLE_CHARACTERS =
+  /[\u00ad\u034f\u061c\u115f\u1160\u17b4\u17b5\u180b-\u180f\u200b-\u200f\u202a-\u202e\u2060-\u206f\u3164\ufe00-\ufe0f\ufeff\uffa0]/;
+
+export type ScopeAction = "read" | "write" | "append";
+
+/**
+ * Thrown for paths that can't be normalised. Endpoints answer with 400.
+ */
+export class PathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PathError";
+  }
+}
+
+/**
+ * Check a single path segment
+ */
+export function validateName(name: string): void {
+  if (name === "") {
+    throw new PathError("Path must not contain empty segments (`//`)");
+  }
+  if (name.includes("/")) {
+    throw new PathError("Names must not contain `/`");
+  }
+  if (FORBIDDEN_NAMES.has(name)) {
+    throw new PathError(`\`${name}\` is not allowed in paths`);
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new PathError(
+      `Names must be at most ${MAX_NAME_LENGTH} characters long`,
+    );
+  }
+  if (name.trim() !== name) {
+    throw new PathError("Names must not start or end with whitespace");
+  }
+  if (CONTROL_CHARACTERS.test(name)) {
+    throw new PathError("Paths must not contain control characters");
+  }
+  if (INVISIBLE_CHARACTERS.test(name)) {
+    throw new PathError("Paths must not contain invisible characters");
+  }
+  if (name.includes("\\")) {
+    throw new PathError("Paths must not contain `\\`");
+  }
+
+  // Compatibility forms such as fullwidth `／` or `．．` read as separators
+  const compatible = name.normalize("NFKC");
+  if (
+    compatible !== name &&
+    (/[/\\]/.test(compatible) ||
+      FORBIDDEN_NAMES.has(compatible) ||
+      compatible.trim() !== compatible)
+  ) {
+    throw new PathError(
+      `\`${name}\` contains characters that look like a path separator or dot`,
+    );
+  }
+}
+
+/**
+ * Canonical form of a path: Unicode NFC, one leading slash and no empty,
+ * `.` or `..` segments. "" and "/" are the root. Throws PathError for
+ * anything else instead of guessing what was meant.
+ */
+export function normalizePath(path: unknown): string {
+  if (typeof path !== "string") {
+    throw new PathError("Path must be a string");
+  }
+
+  const normalized = path.normalize("NFC");
+  if (normalized === "" || normalized === "/") return "/";
+
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new PathError(
+      `Paths must be at most ${MAX_PATH_LENGTH} characters long`,
+    );
+  }
+
+  const relative = normalized.startsWith("/")
+    ? normalized.slice(1)
+    : normalized;
+  if (relative.endsWith("/")) {
+    throw new PathError("Paths must not end with `/`");
+  }
+
+  const segments = relative.split("/");
+  if (segments.length > MAX_PATH_DEPTH) {
+    throw new PathError(`Paths must be at most ${MAX_PATH_DEPTH} levels deep`);
+  }
+  segments.forEach(validateName);
+
+  return "/" + segments.join("/");
+}
+
+/**
+ * Decode a URL pathname and normalise it
+ */
+export function pathFromURL(pathname: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new PathError("Path is not valid percent-encoding");
+  }
+  return normalizePath(decoded);
+}
+
+/**
+ * Full path of a node owned by username. Paths are relative to the user
+ * root unless they already start with the username.
+ */
+export function userPath(path: unknown, username: string): string {
+  const normalized = normalizePath(path);
+  if (normalized === `/${username}` || normalized.startsWith(`/${username}/`)) {
+    return normalized;
+  }
+  return normalized === "/" ? `/${username}` : `/${username}${normalized}`;
+}
+
+/**
+ * Scope resource for a full path: relative to the user root, "" for the root
+ */
+export function scopeResource(fullPath: string, username: string): string {
+  if (fullPath === `/${username}`) return "";
+  if (fullPath.startsWith(`/${username}/`)) {
+    return fullPath.slice(username.length + 2);
+  }
+  return fullPath.slice(1);
+}
+
+/**
+ * Scope needed to perform action on path, e.g. `read:notes/todo.md`
+ */
+export function requiredScope(
+  action: ScopeAction,
+  path: unknown,
+  username: string,
+): string {
+  return `${action}:${scopeResource(userPath(path, username), username)}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * SHA-256 whose progress can be saved as a string and picked up later.
+ * Appending to a large file extends the hash of its blob from the saved
+ * state instead of hashing the whole file again. node:crypto hashes can't
+ * be saved, so this is a plain implementation of FIPS 180-4.
+ */
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export class ResumableSha256 {
+  private readonly state = new Uint32Array(INITIAL_STATE);
+  private readonly buffer = new Uint8Array(64);
+  private buffered = 0;
+  // Bytes hashed so far
+  private length = 0;
+  private readonly words = new Uint32Array(64);
+
+  /**
+   * Start a new hash, or continue one from what save() returned
+   */
+  constructor(saved?: string) {
+    if (saved === undefined) return;
+    const [state, length, buffer] = saved.split(":");
+    if (
+      !/^[0-9a-f]{64}$/.test(state) ||
+      !/^\d+$/.test(length) ||
+      !/^([0-9a-f]{2}){0,63}$/.test(buffer ?? "")
+    ) {
+      throw new Error("Invalid SHA-256 state");
+    }
+    for (let i = 0; i < 8; i++) {
+      this.state[i] = parseInt(state.slice(i * 8, i * 8 + 8), 16);
+    }
+    this.length = Number(length);
+    this.buffered = buffer.length / 2;
+    for (let i = 0; i < this.buffered; i++) {
+      this.buffer[i] = parseInt(buffer.slice(i * 2, i * 2 + 2), 16);
+    }
+  }
+
+  /**
+   * Hash more data. Strings are hashed as UTF-8, as node:crypto does.
+   */
+  update(data: string | Uint8Array): this {
+    const bytes =
+      typeof data === "string" ? new TextEncoder().encode(data) : data;
+    this.length += bytes.length;
+
+    let offset = 0;
+    if (this.buffered > 0) {
+      const take = Math.min(64 - this.buffered, bytes.length);
+      this.buffer.set(bytes.subarray(0, take), this.buffered);
+      this.buffered += take;
+      offset = take;
+      if (this.buffered < 64) return this;
+      this.compress(this.buffer, 0);
+      this.buffered = 0;
+    }
+    for (; offset + 64 <= bytes.length; offset += 64) {
+      this.compress(bytes, offset);
+    }
+    this.buffer.set(bytes.subarray(offset));
+    this.buffered = bytes.length - offset;
+    return this;
+  }
+
+  /**
+   * Progress so far as a string for the constructor
+   */
+  save(): string {
+    const state = new Uint8Array(32);
+    this.state.forEach((word, i) =>
+      new DataView(state.buffer).setUint32(i * 4, word),
+    );
+    return `${hex(state)}:${this.length}:${hex(this.buffer.subarray(0, this.buffered))}`;
+  }
+
+  /**
+   * Hex digest of everything hashed so far. The hash can still be updated.
+   */
+  digest(): string {
+    const copy = new ResumableSha256(this.save());
+    const bits = this.length * 8;
+    const padding = new Uint8Array(((119 - this.buffered) % 64) + 9);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    copy.update(padding);
+
+    const digest = new Uint8Array(32);
+    copy.state.forEach((word, i) =>
+      new DataView(digest.buffer).setUint32(i * 4, word),
+    );
+    return hex(digest);
+  }
+
+  private compress(bytes: Uint8Array, offset: number): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] =
+        (bytes[j] << 24) |
+        (bytes[j + 1] << 16) |
+        (bytes[j + 2] << 8) |
+        bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const a = w[i - 15];
+      const b = w[i - 2];
+      const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+      const s1 =
+        ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const S1 =
+        ((e >>> 6) | (e << 26)) ^
+        ((e >>> 11) | (e << 21)) ^
+        ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 =
+        ((a >>> 2) | (a << 30)) ^
+        ((a >>> 13) | (a << 19)) ^
+        ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    const s = this.state;
+    s[0] += a;
+    s[1] += b;
+    s[2] += c;
+    s[3] += d;
+    s[4] += e;
+    s[5] += f;
+    s[6] += g;
+    s[7] += h;
+  }
+}
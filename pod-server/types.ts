@@ -10,9 +10,13 @@ export interface Env {
   ADMIN_X_USERNAME: string;
   UserDO: DurableObjectNamespace<UserDO & QueryableHandler>;
   TEXT: DurableObjectNamespace<any>;
+  FILES: R2Bucket;
   KV: KVNamespace;
   ENVIRONMENT: string;
   PORT?: string;
+  TRASH_RETENTION_DAYS?: string;
+  STORAGE_QUOTA_BYTES?: string;
+  CLIENT_QUOTA_BYTES?: string;
 }
 
 export interface XUser {
@@ -29,7 +33,7 @@ export interface FileNode {
   path: string;
   name: string;
   parent_path: string | null;
-  type: "file" | "folder";
+  type: "file" | "folder" | "binary" | "link";
   size: number;
   created_at: number;
   updated_at: number;
@@ -58,6 +62,7 @@ export interface ResourceUserContext<
   T = { [key: string]: any }
 > extends ExecutionContext {
   user: XUser | undefined;
+  clientId: string | undefined;
   scopes: string[];
   accessToken: string | undefined;
   hasScope: (requiredScope: string) => boolean;
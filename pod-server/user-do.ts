@@ -4,6 +4,49 @@
 import { DurableObject } from "cloudflare:workers";
 import { Queryable } from "queryable-object";
 import type { Env, XUser, FileNode, AuthData } from "./types";
+import {
+  runMigrations,
+  schemaStatus,
+  type Migration,
+  type SchemaStatus,
+} from "./migrations";
+
+// Schema changes in the order they were made, see migrations.ts
+const USER_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          user_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          username TEXT NOT NULL,
+          profile_image_url TEXT,
+          verified BOOLEAN DEFAULT FALSE,
+          x_access_token TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch()),
+          updated_at INTEGER DEFAULT (unixepoch()),
+          last_active_at INTEGER DEFAULT (unixepoch()),
+          session_count INTEGER DEFAULT 1
+        )
+      `);
+
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS resource_logins (
+          access_token TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          client_id TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch()),
+          last_active_at INTEGER DEFAULT (unixepoch()),
+          session_count INTEGER DEFAULT 1,
+          FOREIGN KEY (user_id) REFERENCES users (user_id)
+        )
+      `);
+    },
+  },
+];
 
 @Queryable()
 export class UserDO extends DurableObject {
@@ -17,33 +60,13 @@ export class UserDO extends DurableObject {
     this.sql = state.storage.sql;
     this.env = env;
 
-    this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        user_id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        username TEXT NOT NULL,
-        profile_image_url TEXT,
-        verified BOOLEAN DEFAULT FALSE,
-        x_access_token TEXT NOT NULL,
-        created_at INTEGER DEFAULT (unixepoch()),
-        updated_at INTEGER DEFAULT (unixepoch()),
-        last_active_at INTEGER DEFAULT (unixepoch()),
-        session_count INTEGER DEFAULT 1
-      )
-    `);
-
-    this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS resource_logins (
-        access_token TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        client_id TEXT NOT NULL,
-        scopes TEXT NOT NULL,
-        created_at INTEGER DEFAULT (unixepoch()),
-        last_active_at INTEGER DEFAULT (unixepoch()),
-        session_count INTEGER DEFAULT 1,
-        FOREIGN KEY (user_id) REFERENCES users (user_id)
-      )
-    `);
+    state.blockConcurrencyWhile(async () => {
+      runMigrations(this.storage, USER_MIGRATIONS);
+    });
+  }
+
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    return schemaStatus(this.sql, USER_MIGRATIONS);
   }
 
   async setUser(user: XUser, xAccessToken: string) {
@@ -88,11 +111,12 @@ export class UserDO extends DurableObject {
 
   async getResourceLogin(accessToken: string): Promise<{
     user: XUser;
+    clientId: string;
     scopes: string[];
   } | null> {
     const result = this.sql
       .exec(
-        `SELECT rl.scopes, u.*
+        `SELECT rl.scopes, rl.client_id, u.*
       FROM resource_logins rl
       JOIN users u ON rl.user_id = u.user_id
       WHERE rl.access_token = ?`,
@@ -114,6 +138,7 @@ export class UserDO extends DurableObject {
 
     return {
       user,
+      clientId: result.client_id as string,
       scopes: JSON.parse(result.scopes as string),
     };
   }
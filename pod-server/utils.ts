@@ -2,14 +2,44 @@
 
 export const USER_DO_PREFIX = "user-resource-v1:";
 
+// Request headers browsers may send, for every preflight and response
+export const CORS_ALLOWED_HEADERS = [
+  "Content-Type",
+  "Authorization",
+  "MCP-Protocol-Version",
+  "x-username",
+  "x-api-key",
+  "If-Match",
+  "If-None-Match",
+  "If-Modified-Since",
+  "If-Unmodified-Since",
+  "Range",
+  "If-Range",
+  "Lock-Token",
+  "X-TTL",
+  "X-Expires-At",
+  "Content-Digest",
+  "Repr-Digest",
+].join(", ");
+
+// Response headers browsers may read
+export const CORS_EXPOSED_HEADERS = [
+  "ETag",
+  "Last-Modified",
+  "Content-Location",
+  "Accept-Ranges",
+  "Content-Range",
+  "Accept-Patch",
+].join(", ");
+
 export function getCorsHeaders(
   allowedMethods: string[] = ["GET", "OPTIONS"]
 ): Record<string, string> {
   return {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": allowedMethods.join(", "),
-    "Access-Control-Allow-Headers":
-      "Content-Type, Authorization, MCP-Protocol-Version, x-username, x-api-key",
+    "Access-Control-Allow-Headers": CORS_ALLOWED_HEADERS,
+    "Access-Control-Expose-Headers": CORS_EXPOSED_HEADERS,
   };
 }
 
@@ -105,6 +135,49 @@ export function validateScopes(scopes: string[]): boolean {
   return true;
 }
 
+/**
+ * Check whether granted scopes cover requiredScope. A resource scope also
+ * covers everything below it, e.g. `read:notes` grants `read:notes/a.md`.
+ */
+export function scopeMatches(scopes: string[], requiredScope: string): boolean {
+  if (scopes.includes(requiredScope)) return true;
+
+  const [requiredAction, requiredResource = ""] = requiredScope.split(":", 2);
+
+  for (const grantedScope of scopes) {
+    const [grantedAction, grantedResource = ""] = grantedScope.split(":", 2);
+
+    if (grantedAction !== requiredAction) continue;
+    if (grantedResource === "") return true;
+
+    if (requiredResource === "") {
+      if (scopes.includes(requiredAction)) return true;
+      continue;
+    }
+
+    if (requiredResource.startsWith(grantedResource)) {
+      if (grantedResource === "" || requiredResource === grantedResource) {
+        return true;
+      }
+
+      const nextChar = requiredResource.charAt(grantedResource.length);
+      if (
+        grantedResource.endsWith("/") ||
+        nextChar === "/" ||
+        nextChar === ""
+      ) {
+        return true;
+      }
+    }
+  }
+
+  if (requiredScope.includes(":")) {
+    return scopes.includes(requiredAction);
+  }
+
+  return false;
+}
+
 export async function encrypt(text: string, secret: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(text);